@@ -1,9 +1,42 @@
 // This is a widget to spec Flex designs and annotate components with component IDs for better handoff to eng
-type ComponentTypes = 'highConfidence' | 'unclear' | 'custom';
+// ID of a status type, see StatusType
+type ComponentTypes = string;
+type MatchRuleType =
+	| 'description'
+	| 'componentKey'
+	| 'componentSetName'
+	| 'layerName'
+	| 'componentProperty';
 interface DynamicComponentsState {
 	id: ReturnType<typeof uid>;
 	type: ComponentTypes;
 	value: string;
+	// matching rule which resolved the value on import
+	matchedBy?: MatchRuleType;
+	// canvas layers the row was imported from
+	nodeIds?: string[];
+	// person who owns the row until it is resolved
+	assignee?: Author;
+	details?: ComponentDetails;
+	// variant and component property values of the imported instance
+	properties?: CapturedProperty[];
+}
+interface CapturedProperty {
+	name: string;
+	value: string;
+	type: ComponentPropertyType;
+	// the instance changed the default value of the main component
+	overridden: boolean;
+}
+interface ComponentDetails {
+	usageNote: string;
+	// platform notes
+	web: string;
+	ios: string;
+	android: string;
+	docsUrl: string;
+	// why the row has its status, for status types which need a reason
+	reason: string;
 }
 
 const { widget } = figma;
@@ -11,7 +44,9 @@ const {
 	useEffect,
 	waitForTask,
 	useSyncedState,
+	useSyncedMap,
 	usePropertyMenu,
+	useWidgetId,
 	AutoLayout,
 	Text,
 	SVG,
@@ -24,1256 +59,4537 @@ const uid = () =>
 		''
 	);
 
-// JavaScript Object which maps component types to the fill colours
-const COMPONENTS_COLOURS_FILL = {
-	highConfidence: '#1A73E8',
-	unclear: '#C28AF5',
-	custom: '#858585',
+interface StatusType {
+	id: ComponentTypes;
+	label: string;
+	colour: string;
+	description: string;
+	// rows of this type hold a catalog ID, otherwise a free text name
+	usesCatalog: boolean;
+	// rows of this type ask why they have it, like why usage is unclear
+	needsReason?: boolean;
+}
+
+// the built-in IDs are kept, so rows of specs created before custom status types still resolve
+const DEFAULT_STATUS_TYPES: StatusType[] = [
+	{
+		id: 'highConfidence',
+		label: 'high confidence',
+		colour: '#1A73E8',
+		description: 'High confidence component',
+		usesCatalog: true,
+	},
+	{
+		id: 'unclear',
+		label: 'unclear usage',
+		colour: '#C28AF5',
+		description: 'Unclear usage',
+		usesCatalog: true,
+		needsReason: true,
+	},
+	{
+		id: 'custom',
+		label: 'custom',
+		colour: '#858585',
+		description: 'Custom component',
+		usesCatalog: false,
+	},
+];
+
+type ComponentDetailField = keyof ComponentDetails;
+
+const EMPTY_COMPONENT_DETAILS: ComponentDetails = {
+	usageNote: '',
+	web: '',
+	ios: '',
+	android: '',
+	docsUrl: '',
+	reason: '',
+};
+
+// JavaScript Object which maps row detail fields to their labels, in display order
+const COMPONENT_DETAIL_LABELS: Record<ComponentDetailField, string> = {
+	reason: 'Reason',
+	usageNote: 'Usage note',
+	web: 'Web',
+	ios: 'iOS',
+	android: 'Android',
+	docsUrl: 'Docs link',
 };
 
+const COMPONENT_DETAIL_FIELDS = Object.keys(
+	COMPONENT_DETAIL_LABELS
+) as ComponentDetailField[];
+
+/**
+ * Returns the detail fields of a row which were filled in.
+ *
+ * @param details - details of the row
+ * @returns Array - filled fields with their values, in display order
+ */
+function getFilledDetails(details?: ComponentDetails) {
+	return COMPONENT_DETAIL_FIELDS.map((field) => ({
+		field,
+		value: details?.[field]?.trim() ?? '',
+	})).filter(({ value }) => value);
+}
+
+// document plugin data key holding the status types shared by every widget
+const DOCUMENT_STATUS_TYPES_KEY = 'statusTypes';
+
+/**
+ * Returns the status type with the given ID.
+ * Rows whose status type was deleted are shown in grey with their raw ID.
+ *
+ * @param statusTypes - status types of the spec
+ * @param type - status type ID of a row
+ * @returns - the status type
+ */
+function getStatusType(
+	statusTypes: StatusType[],
+	type: ComponentTypes
+): StatusType {
+	return (
+		// rows of other widgets keep the ID of a status type deleted document wide
+		statusTypes.find(({ id }) => id === type) ?? {
+			id: type,
+			label: 'Deleted status',
+			colour: '#858585',
+			description: '',
+			usesCatalog: true,
+		}
+	);
+}
+
+/**
+ * Returns the ID of the first status type holding catalog IDs, or free text names.
+ *
+ * @param statusTypes - status types of the spec
+ * @param usesCatalog - whether the row holds a catalog ID
+ * @returns - status type ID
+ */
+function getDefaultStatusType(
+	statusTypes: StatusType[],
+	usesCatalog: boolean
+): ComponentTypes {
+	return (
+		statusTypes.find((statusType) => statusType.usesCatalog === usesCatalog) ??
+		statusTypes[0]
+	).id;
+}
+
+/**
+ * Reads the status types shared by every widget in the document.
+ *
+ * @returns - the document status types, or the built-in ones
+ */
+function getDocumentStatusTypes(): StatusType[] {
+	const stored = figma.root.getPluginData(DOCUMENT_STATUS_TYPES_KEY);
+	if (!stored) {
+		return DEFAULT_STATUS_TYPES;
+	}
+	try {
+		const statusTypes: StatusType[] = JSON.parse(stored);
+		return statusTypes.length ? statusTypes : DEFAULT_STATUS_TYPES;
+	} catch (e) {
+		console.error('error in getDocumentStatusTypes', e);
+		return DEFAULT_STATUS_TYPES;
+	}
+}
+
 interface TextState {
 	[key: ReturnType<typeof uid>]: string;
 }
 
-function Widget() {
-	const [note, setNote] = useSyncedState('note', '');
-	const [title, setTitle] = useSyncedState('title', '');
-	const [dynamicComponents, setDynamicComponents] = useSyncedState<
-		DynamicComponentsState[]
-	>('dynamicComponents', []);
-	const [gsheetData, setGsheetData] = useSyncedState<string[] | null>(
-		'gsheetData',
-		null
+type LinkIssue = 'deleted' | 'partlyDeleted' | 'offPage';
+
+// JavaScript Object which maps component row IDs to problems with their linked layers
+interface LinkIssues {
+	[key: ReturnType<typeof uid>]: LinkIssue;
+}
+
+const LINK_ISSUE_MESSAGES: Record<LinkIssue, string> = {
+	deleted: 'Linked layer was deleted',
+	partlyDeleted: 'Some linked layers were deleted',
+	offPage: 'Linked layer is on another page',
+};
+
+/**
+ * Returns the page a node lives on.
+ *
+ * @param node - any node of the document
+ * @returns - the page, or null when the node is not on a page
+ */
+function getPage(node: BaseNode) {
+	let current: BaseNode | null = node;
+	while (current && current.type !== 'PAGE') {
+		current = current.parent;
+	}
+	return current;
+}
+
+/**
+ * Returns the linked layers of a row which still exist in the document.
+ *
+ * @param nodeIds - linked node IDs of the row
+ * @returns Array - scene nodes which were not deleted
+ */
+function getLinkedNodes(nodeIds: string[]) {
+	return nodeIds
+		.map((nodeId) => figma.getNodeById(nodeId))
+		.filter(
+			(node): node is SceneNode =>
+				!!node &&
+				!node.removed &&
+				node.type !== 'PAGE' &&
+				node.type !== 'DOCUMENT'
+		);
+}
+
+// JavaScript Object which maps component row IDs to the on-canvas badges placed for them
+interface BadgeIds {
+	[key: ReturnType<typeof uid>]: string[];
+}
+
+const BADGE_SIZE = 24;
+const BADGE_FONT: FontName = { family: 'Inter', style: 'Semi Bold' };
+// plugin data key holding the number and type a badge currently shows
+const BADGE_SIGNATURE_KEY = 'badgeSignature';
+
+const getBadgeSignature = (
+	number: number,
+	{ id, colour, usesCatalog }: StatusType
+) => `${number}-${id}-${colour}-${usesCatalog}`;
+
+/**
+ * Converts a #RRGGBB or #RRGGBBAA colour to a solid paint.
+ *
+ * @param hex - hex colour
+ * @returns - solid paint with the alpha channel as opacity
+ */
+function hexToPaint(hex: string): SolidPaint {
+	const [r, g, b, a = 255] = [1, 3, 5, 7]
+		.map((start) => hex.slice(start, start + 2))
+		.filter(Boolean)
+		.map((channel) => parseInt(channel, 16));
+	return {
+		type: 'SOLID',
+		color: { r: r / 255, g: g / 255, b: b / 255 },
+		opacity: a / 255,
+	};
+}
+
+/**
+ * Returns the badge frame with the given ID, if it still exists.
+ *
+ * @param badgeId - node ID of the badge
+ * @returns - the badge frame or null
+ */
+function getBadge(badgeId: string) {
+	const badge = figma.getNodeById(badgeId);
+	return badge && !badge.removed && badge.type === 'FRAME' ? badge : null;
+}
+
+/**
+ * Function that draws a numbered badge in the colour of the status type.
+ * Reuses the given badge when there is one, otherwise creates a new frame.
+ *
+ * @param badge - existing badge frame or null
+ * @param number - number shown in the widget
+ * @param statusType - status type of the row
+ * @returns - the badge frame
+ */
+async function drawBadge(
+	badge: FrameNode | null,
+	number: number,
+	statusType: StatusType
+) {
+	await figma.loadFontAsync(BADGE_FONT);
+	const frame = badge ?? figma.createFrame();
+	const label =
+		(frame.findChild((child) => child.type === 'TEXT') as TextNode | null) ??
+		figma.createText();
+	if (!badge) {
+		frame.name = 'Flex spec badge';
+		frame.layoutMode = 'HORIZONTAL';
+		frame.primaryAxisAlignItems = 'CENTER';
+		frame.counterAxisAlignItems = 'CENTER';
+		frame.primaryAxisSizingMode = 'FIXED';
+		frame.counterAxisSizingMode = 'FIXED';
+		frame.cornerRadius = BADGE_SIZE / 2;
+		frame.resize(BADGE_SIZE, BADGE_SIZE);
+		label.fontName = BADGE_FONT;
+		label.fontSize = 12;
+		frame.appendChild(label);
+	}
+	label.characters = String(number);
+	if (statusType.usesCatalog) {
+		frame.fills = [hexToPaint(statusType.colour)];
+		frame.strokes = [];
+		label.fills = [hexToPaint('#FFFFFF')];
+	} else {
+		frame.fills = [hexToPaint('#FFFFFF')];
+		frame.strokes = [hexToPaint('#00000075')];
+		label.fills = [hexToPaint(statusType.colour)];
+	}
+	frame.setPluginData(
+		BADGE_SIGNATURE_KEY,
+		getBadgeSignature(number, statusType)
 	);
-	// console.log({ dynamicComponents });
-	async function fetchDataFromGoogleSheet(): Promise<string[]> {
-		const GOOGLE_SHEET_URL =
-			'https://docs.google.com/spreadsheets/d/1BN006aKzIEJ1RTBvVOff8zMKIkXW9ZKyT4nrJMINm6w/gviz/tq?tqx=out:json&tq&gid=0';
-		const CLOUD_FN_URL =
-			'https://us-central1-figmaproxy.cloudfunctions.net/fetchFromGoogleSheet';
-		try {
-			const response = await fetch(`${CLOUD_FN_URL}?url=${GOOGLE_SHEET_URL}`, {
-				headersObject: {
-					'access-control-allow-origin': '*',
-				},
-			});
-			if (!response.ok) {
-				throw new Error('Gsheet fetch unsuccessful!');
+	return frame;
+}
+
+// longest side of a thumbnail, kept small as thumbnails live in the synced map
+const THUMBNAIL_SIZE = 96;
+
+/**
+ * Function that renders a small preview of a layer.
+ *
+ * @param node - linked layer
+ * @returns - PNG data URI, or undefined when the layer can not be exported
+ */
+async function exportThumbnail(node: SceneNode) {
+	if (!('exportAsync' in node) || !node.width || !node.height) {
+		return undefined;
+	}
+	try {
+		const bytes = await node.exportAsync({
+			format: 'PNG',
+			constraint: {
+				type: 'SCALE',
+				value: Math.min(1, THUMBNAIL_SIZE / Math.max(node.width, node.height)),
+			},
+		});
+		return `data:image/png;base64,${figma.base64Encode(bytes)}`;
+	} catch (e) {
+		console.error('error in exportThumbnail', e);
+		return undefined;
+	}
+}
+
+/**
+ * Moves a badge onto the page of a layer, next to its top left corner.
+ *
+ * @param badge - badge frame
+ * @param node - linked layer
+ */
+function placeBadgeNextTo(badge: FrameNode, node: SceneNode) {
+	const page = getPage(node);
+	const bounds =
+		'absoluteBoundingBox' in node ? node.absoluteBoundingBox : null;
+	if (!page || !bounds) {
+		return;
+	}
+	if (badge.parent !== page) {
+		page.appendChild(badge);
+	}
+	badge.x = bounds.x - BADGE_SIZE - 4;
+	badge.y = bounds.y - BADGE_SIZE / 2;
+}
+
+interface Author {
+	id: string | null;
+	name: string;
+	photoUrl: string | null;
+}
+
+interface SpecNote {
+	id: ReturnType<typeof uid>;
+	text: string;
+	author: Author;
+	createdAt: number;
+	editedAt?: number;
+	resolved: boolean;
+	assignee?: Author;
+}
+
+const UNKNOWN_AUTHOR: Author = {
+	id: null,
+	name: 'Unknown author',
+	photoUrl: null,
+};
+
+/**
+ * Returns the user running the widget as an author.
+ *
+ * @returns - the current user, or an anonymous author when not logged in
+ */
+function getCurrentAuthor(): Author {
+	const user = figma.currentUser;
+	return user
+		? { id: user.id, name: user.name, photoUrl: user.photoUrl }
+		: { ...UNKNOWN_AUTHOR, name: 'Anonymous' };
+}
+
+/**
+ * Whether the current user wrote something.
+ * Authors without an ID can be changed by anyone.
+ *
+ * @param author - author of the note
+ * @returns boolean
+ */
+function isCurrentAuthor(author: Author) {
+	return !author.id || author.id === figma.currentUser?.id;
+}
+
+/**
+ * Whether something is assigned to a person.
+ * Unlike authorship, anonymous assignees belong to nobody.
+ *
+ * @param assignee - assignee of a row or a note
+ * @param person - person the items are filtered for
+ * @returns boolean
+ */
+function isAssignedTo(assignee: Author | undefined, person: Author) {
+	return Boolean(assignee?.id) && assignee?.id === person.id;
+}
+
+type AssignTarget = 'component' | 'note';
+
+/**
+ * Function that lists who a row or a note can be assigned to.
+ * People in the file come first, then previous authors, without duplicates.
+ *
+ * @param previousAuthors - authors and assignees already known to the spec
+ * @returns Array - candidate assignees
+ */
+function getAssigneeCandidates(previousAuthors: Author[]): Author[] {
+	const activeUsers = figma.activeUsers.map<Author>(
+		({ id, name, photoUrl }) => ({ id, name, photoUrl })
+	);
+	return [...activeUsers, ...previousAuthors].filter(
+		(author, index, authors) =>
+			Boolean(author.id) &&
+			authors.findIndex(({ id }) => id === author.id) === index
+	);
+}
+
+type EditSubject = 'title' | 'components' | 'notes' | 'spec';
+
+interface EditLogEntry {
+	id: ReturnType<typeof uid>;
+	author: Author;
+	subject: EditSubject;
+	summary: string;
+	at: number;
+}
+
+interface SpecAuthorship {
+	createdBy: Author;
+	createdAt: number;
+	editedBy: Author;
+	editedAt: number;
+}
+
+// oldest entries are dropped so the synced state stays small
+const MAX_EDIT_LOG_ENTRIES = 300;
+
+interface SpecSnapshot {
+	title: string;
+	dynamicComponents: DynamicComponentsState[];
+	notes: SpecNote[];
+	// change which turned this snapshot into the next state
+	summary: string;
+}
+
+interface SpecHistory {
+	past: SpecSnapshot[];
+	future: SpecSnapshot[];
+}
+
+const INITIAL_SPEC_HISTORY: SpecHistory = { past: [], future: [] };
+
+// snapshots hold the whole spec, so fewer of them are kept than log entries
+const MAX_HISTORY_ENTRIES = 30;
+
+// changes to these subjects can be undone, finalizing the spec can not
+const UNDOABLE_EDIT_SUBJECTS: EditSubject[] = ['title', 'components', 'notes'];
+
+interface RemovedComponent {
+	component: DynamicComponentsState;
+	// number the row had when it was removed
+	number: number;
+	removedBy: Author;
+	removedAt: number;
+}
+
+const MAX_REMOVED_COMPONENTS = 20;
+
+// dropdown option of the status filter which shows every row
+const ALL_STATUS_TYPES = 'all';
+
+// placeholder option of the actions dropdown, which is selected between actions
+const MORE_ACTIONS = 'more';
+
+// JavaScript Object which maps property menu actions to their icons
+const PROPERTY_MENU_ICONS = {
+	importFromSelection: `<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'><path d='M3 5H5V3C3.9 3 3 3.9 3 5ZM3 13H5V11H3V13ZM7 21H9V19H7V21ZM3 9H5V7H3V9ZM13 3H11V5H13V3ZM19 3V5H21C21 3.9 20.1 3 19 3ZM5 21V19H3C3 20.1 3.9 21 5 21ZM3 17H5V15H3V17ZM9 3H7V5H9V3ZM11 21H13V19H11V21ZM19 13H21V11H19V13ZM19 21C20.1 21 21 20.1 21 19H19V21ZM19 9H21V7H19V9ZM19 17H21V15H19V17ZM15 21H17V19H15V21ZM15 5H17V3H15V5ZM7 17H17V7H7V17ZM9 9H15V15H9V9Z' fill='white'/></svg>`,
+	refreshCatalog: `<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'><path d='M17.65 6.35C16.2 4.9 14.21 4 12 4C7.58 4 4.01 7.58 4.01 12C4.01 16.42 7.58 20 12 20C15.73 20 18.84 17.45 19.73 14H17.65C16.83 16.33 14.61 18 12 18C8.69 18 6 15.31 6 12C6 8.69 8.69 6 12 6C13.66 6 15.14 6.69 16.22 7.78L13 11H20V4L17.65 6.35Z' fill='white'/></svg>`,
+	export: `<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'><path d='M19 9H15V3H9V9H5L12 16L19 9ZM5 18V20H19V18H5Z' fill='white'/></svg>`,
+	compact: `<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'><path d='M4 20H20V18H4V20ZM4 4V6H20V4H4ZM12 9L8 13H11V15H13V13H16L12 9Z' fill='white'/></svg>`,
+	settings: `<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'><path d='M19.14 12.94C19.18 12.64 19.2 12.33 19.2 12C19.2 11.68 19.18 11.36 19.13 11.06L21.16 9.48C21.34 9.34 21.39 9.07 21.28 8.87L19.36 5.55C19.24 5.33 18.99 5.26 18.77 5.33L16.38 6.29C15.88 5.91 15.35 5.59 14.76 5.35L14.4 2.81C14.36 2.57 14.16 2.4 13.92 2.4H10.08C9.84 2.4 9.65 2.57 9.61 2.81L9.25 5.35C8.66 5.59 8.12 5.92 7.63 6.29L5.24 5.33C5.02 5.25 4.77 5.33 4.65 5.55L2.74 8.87C2.62 9.08 2.66 9.34 2.86 9.48L4.89 11.06C4.84 11.36 4.8 11.69 4.8 12C4.8 12.31 4.82 12.64 4.87 12.94L2.84 14.52C2.66 14.66 2.61 14.93 2.72 15.13L4.64 18.45C4.76 18.67 5.01 18.74 5.23 18.67L7.62 17.71C8.12 18.09 8.65 18.41 9.24 18.65L9.6 21.19C9.65 21.43 9.84 21.6 10.08 21.6H13.92C14.16 21.6 14.36 21.43 14.39 21.19L14.75 18.65C15.34 18.41 15.88 18.09 16.37 17.71L18.76 18.67C18.98 18.75 19.23 18.67 19.35 18.45L21.27 15.13C21.39 14.91 21.34 14.66 21.15 14.52L19.14 12.94ZM12 15.6C10.02 15.6 8.4 13.98 8.4 12C8.4 10.02 10.02 8.4 12 8.4C13.98 8.4 15.6 10.02 15.6 12C15.6 13.98 13.98 15.6 12 15.6Z' fill='white'/></svg>`,
+};
+
+type SortOrder = 'type' | 'name' | 'position';
+
+const SORT_ORDER_LABELS: Record<SortOrder, string> = {
+	type: 'Type',
+	name: 'Name',
+	position: 'Canvas position',
+};
+
+// layers whose tops are closer than this are read as being on the same line
+const READING_LINE_TOLERANCE = 8;
+
+/**
+ * Function that sorts component rows in the reading order of their linked layers,
+ * top-to-bottom then left-to-right. Rows without linked layers keep their order at the end.
+ *
+ * @param components - component rows
+ * @returns Array - sorted component rows
+ */
+function sortByCanvasPosition(components: DynamicComponentsState[]) {
+	const positioned = components.map((component) => {
+		const [node] = getLinkedNodes(component.nodeIds ?? []);
+		const bounds =
+			node && 'absoluteBoundingBox' in node ? node.absoluteBoundingBox : null;
+		return { component, bounds };
+	});
+	const lines = positioned
+		.filter(({ bounds }) => bounds)
+		.sort((a, b) => (a.bounds as Rect).y - (b.bounds as Rect).y)
+		.reduce<(typeof positioned)[]>((finalLines, item) => {
+			const line = finalLines[finalLines.length - 1];
+			if (
+				line &&
+				(item.bounds as Rect).y - (line[0].bounds as Rect).y <=
+					READING_LINE_TOLERANCE
+			) {
+				line.push(item);
+			} else {
+				finalLines.push([item]);
 			}
-			const dataAsText = await response.text();
-			const parsed = JSON.parse(dataAsText);
-			return parsed;
-		} catch (e) {
-			console.error('error in fetchDataFromGoogleSheet', e);
-			throw new Error(String(e));
+			return finalLines;
+		}, []);
+	return [
+		...lines.reduce<DynamicComponentsState[]>(
+			(finalComponents, line) => [
+				...finalComponents,
+				...line
+					.sort((a, b) => (a.bounds as Rect).x - (b.bounds as Rect).x)
+					.map(({ component }) => component),
+			],
+			[]
+		),
+		...positioned
+			.filter(({ bounds }) => !bounds)
+			.map(({ component }) => component),
+	];
+}
+
+type CatalogSourceType = 'gsheet' | 'csv' | 'json' | 'list';
+interface CatalogSourceConfig {
+	type: CatalogSourceType;
+	// URL of the sheet, CSV file or JSON endpoint (unused for pasted lists)
+	url: string;
+	// newline or comma separated component IDs (only used by the list source)
+	list: string;
+	// route the request through the cloud function to get around CORS
+	useProxy: boolean;
+	// how long a fetched catalog stays fresh before it is fetched again
+	ttlMinutes: number;
+}
+
+interface CatalogStatus {
+	// when the cached catalog was last fetched successfully
+	fetchedAt: number | null;
+	// when a fetch was last started, successful or not
+	attemptedAt: number | null;
+	// error of the last failed fetch, empty when it succeeded
+	error: string;
+}
+
+// A single entry of the component catalog
+interface CatalogRecord {
+	id: string;
+	name: string;
+	description: string;
+	status: string;
+	owner: string;
+	docsUrl: string;
+	// code snippet template, see generateCodeSnippet
+	codeTemplate: string;
+}
+
+interface CatalogProvider {
+	label: string;
+	parse: (dataAsText: string) => CatalogRecord[];
+}
+
+const CLOUD_FN_URL =
+	'https://us-central1-figmaproxy.cloudfunctions.net/fetchFromGoogleSheet';
+
+// Key used to store the document wide catalog source on figma.root
+const DOCUMENT_CATALOG_SOURCE_KEY = 'catalogSource';
+
+const DEFAULT_CATALOG_SOURCE: CatalogSourceConfig = {
+	type: 'gsheet',
+	url: 'https://docs.google.com/spreadsheets/d/1BN006aKzIEJ1RTBvVOff8zMKIkXW9ZKyT4nrJMINm6w/gviz/tq?tqx=out:json&tq&gid=0',
+	list: '',
+	// the gviz endpoint answers simple cross origin requests, see fetchCatalog,
+	// while the proxy would drop every column but the ID
+	useProxy: false,
+	ttlMinutes: 60,
+};
+
+const INITIAL_CATALOG_STATUS: CatalogStatus = {
+	fetchedAt: null,
+	attemptedAt: null,
+	error: '',
+};
+
+const padNumber = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a timestamp the way dates are shown across the widget.
+ *
+ * @param timestamp - milliseconds since epoch
+ * @returns - date formatted as dd/mm/yyyy hh:mm
+ */
+function formatDate(timestamp: number) {
+	const date = new Date(timestamp);
+	return `${padNumber(date.getDate())}/${padNumber(
+		date.getMonth() + 1
+	)}/${date.getFullYear()} ${padNumber(date.getHours())}:${padNumber(
+		date.getMinutes()
+	)}`;
+}
+
+/**
+ * Splits a CSV document into rows of cells.
+ * Handles quoted cells, escaped quotes and commas/newlines inside quotes.
+ *
+ * @param dataAsText - raw CSV text
+ * @returns Array - rows of trimmed cells, empty rows are dropped
+ */
+function parseCsv(dataAsText: string) {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+	for (let i = 0; i < dataAsText.length; i++) {
+		const char = dataAsText[i];
+		if (inQuotes) {
+			if (char === '"' && dataAsText[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(cell.trim());
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && dataAsText[i + 1] === '\n') i++;
+			row.push(cell.trim());
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
 		}
 	}
+	row.push(cell.trim());
+	rows.push(row);
+	return rows.filter((cells) => cells.some(Boolean));
+}
 
-	useEffect(() => {
-		if (!gsheetData) {
-			waitForTask(
-				new Promise(async (resolve) => {
-					figma.showUI(``, { visible: false });
-					try {
-						const sheetData = await fetchDataFromGoogleSheet();
-						setGsheetData(sheetData);
-						resolve(gsheetData);
-						figma.closePlugin();
-					} catch (e) {
-						console.error('error in useEffect', String(e));
-						figma.closePlugin();
-						resolve(e);
-					}
-				})
+/**
+ * Unwraps a Google Visualization (gviz) response.
+ * The raw endpoint wraps the JSON in `google.visualization.Query.setResponse(...)`,
+ * while the cloud function proxy already returns plain JSON.
+ *
+ * @param dataAsText - raw response text
+ * @returns - the parsed JSON payload
+ */
+function parseGvizPayload(dataAsText: string) {
+	const start = dataAsText.indexOf('(');
+	const end = dataAsText.lastIndexOf(')');
+	const isWrapped =
+		dataAsText.includes('google.visualization') && start > -1 && end > start;
+	return JSON.parse(isWrapped ? dataAsText.slice(start + 1, end) : dataAsText);
+}
+
+// JavaScript Object which maps catalog record fields to the column headers they can be read from
+const CATALOG_COLUMN_ALIASES: Record<keyof CatalogRecord, string[]> = {
+	id: ['id', 'componentid', 'flexid'],
+	name: ['name', 'displayname', 'componentname'],
+	description: ['description', 'desc'],
+	status: ['status', 'state'],
+	owner: ['owner', 'team', 'maintainer'],
+	docsUrl: ['docsurl', 'docs', 'documentation', 'link', 'url'],
+	codeTemplate: ['codetemplate', 'template', 'code', 'snippet'],
+};
+
+const normaliseHeader = (header: string) =>
+	header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Function that maps a row of cells to a catalog record using its column headers.
+ * When no header matches the ID, the first column is used as the ID.
+ *
+ * @param headers - column headers of the source
+ * @param cells - cell values of the row
+ * @returns - catalog record with empty strings for missing fields
+ */
+function toCatalogRecord(headers: string[], cells: unknown[]): CatalogRecord {
+	const normalisedHeaders = headers.map(normaliseHeader);
+	const readField = (field: keyof CatalogRecord) => {
+		const index = normalisedHeaders.findIndex((header) =>
+			CATALOG_COLUMN_ALIASES[field].includes(header)
+		);
+		const cell = cells[index === -1 && field === 'id' ? 0 : index];
+		return cell === undefined || cell === null ? '' : String(cell).trim();
+	};
+	return {
+		id: readField('id'),
+		name: readField('name'),
+		description: readField('description'),
+		status: readField('status'),
+		owner: readField('owner'),
+		docsUrl: readField('docsUrl'),
+		codeTemplate: readField('codeTemplate'),
+	};
+}
+
+/**
+ * Function that maps a JSON catalog entry to a catalog record.
+ * Entries can either be plain component IDs or objects keyed by column name.
+ *
+ * @param entry - JSON value of the entry
+ * @returns - catalog record
+ */
+function jsonToCatalogRecord(entry: unknown) {
+	if (typeof entry === 'object' && entry !== null) {
+		return toCatalogRecord(Object.keys(entry), Object.values(entry));
+	}
+	return toCatalogRecord([], [entry]);
+}
+
+// JavaScript Object which maps catalog source types to their providers
+const CATALOG_PROVIDERS: Record<CatalogSourceType, CatalogProvider> = {
+	gsheet: {
+		label: 'Google Sheet (gviz)',
+		parse: (dataAsText) => {
+			const payload = parseGvizPayload(dataAsText);
+			// the cloud function proxy flattens the sheet to a list of IDs, so
+			// records fetched through it only hold an ID
+			if (Array.isArray(payload)) {
+				return payload.map(jsonToCatalogRecord);
+			}
+			const cols: ({ label?: string } | null)[] = payload?.table?.cols ?? [];
+			const rows: { c: ({ v: unknown } | null)[] }[] =
+				payload?.table?.rows ?? [];
+			const headers = cols.map((col) => col?.label ?? '');
+			return rows.map(({ c }) =>
+				toCatalogRecord(
+					headers,
+					c.map((cell) => cell?.v)
+				)
 			);
-		}
-	});
+		},
+	},
+	csv: {
+		label: 'CSV URL',
+		// the first row holds the column headers
+		parse: (dataAsText) => {
+			const [headers = [], ...rows] = parseCsv(dataAsText);
+			return rows.map((cells) => toCatalogRecord(headers, cells));
+		},
+	},
+	json: {
+		label: 'JSON endpoint',
+		parse: (dataAsText) => {
+			const payload = JSON.parse(dataAsText);
+			const entries: unknown[] = Array.isArray(payload)
+				? payload
+				: payload?.components ?? [];
+			return entries.map(jsonToCatalogRecord);
+		},
+	},
+	list: {
+		label: 'Pasted list',
+		parse: (dataAsText) =>
+			dataAsText.split(/[\n,]/).map((id) => toCatalogRecord([], [id])),
+	},
+};
 
-	useEffect(() => {
-		figma.ui.onmessage = (message) => {
-			if (message.type === 'searchitemselection') {
-				setDynamicComponents((prevComponents) =>
-					prevComponents.reduce<DynamicComponentsState[]>(
-						(finalState, component) => {
-							return [
-								...finalState,
-								component.id === message.id
-									? { ...component, value: message.value }
-									: component,
-							];
+/**
+ * Function that fetches the component catalog from the configured source.
+ *
+ * @param source - catalog source configuration
+ * @returns Array - catalog records with a unique, non empty ID
+ */
+async function fetchCatalog(
+	source: CatalogSourceConfig
+): Promise<CatalogRecord[]> {
+	const provider = CATALOG_PROVIDERS[source.type];
+	try {
+		let dataAsText = source.list;
+		if (source.type !== 'list') {
+			// direct fetches send no custom header, as it would trigger a CORS preflight
+			// which static hosts and Google Sheets reject
+			const response = source.useProxy
+				? await fetch(`${CLOUD_FN_URL}?url=${encodeURIComponent(source.url)}`, {
+						headersObject: {
+							'access-control-allow-origin': '*',
 						},
-						[]
-					)
-				);
-				figma.closePlugin('Applied with success!');
+				  })
+				: await fetch(source.url);
+			if (!response.ok) {
+				throw new Error(`${provider.label} fetch unsuccessful!`);
 			}
-		};
-	});
-
-	const importFromSelection = () => {
-		const { selection } = figma.currentPage;
-		if (selection.length) {
-			const componentsToCreate = selection.reduce<DynamicComponentsState[]>(
-				(finalComponents, component) => {
-					if (
-						component.type === 'COMPONENT' ||
-						component.type === 'COMPONENT_SET'
-					) {
-						const value = component.description || 'no description present!';
-						finalComponents.push({
-							id: uid(),
-							type: gsheetData?.includes(value) ? 'highConfidence' : 'custom',
-							value,
-						});
-					}
-					if (component.type === 'FRAME') {
-						const children = component.children;
-						children.forEach((child) => {
-							if (
-								child.type === 'COMPONENT' ||
-								child.type === 'COMPONENT_SET'
-							) {
-								const value = child.description;
-								finalComponents.push({
-									id: uid(),
-									type: gsheetData?.includes(value)
-										? 'highConfidence'
-										: 'custom',
-									value,
-								});
-							}
-							if (child.type === 'INSTANCE') {
-								const value = child.mainComponent?.description ?? '';
-								finalComponents.push({
-									id: uid(),
-									type: gsheetData?.includes(value)
-										? 'highConfidence'
-										: 'custom',
-									value,
-								});
-							}
-							if (child.type === 'FRAME') {
-								finalComponents.push({
-									id: uid(),
-									type: 'custom',
-									value: child.name,
-								});
-							}
-						});
-					}
-					return finalComponents;
-				},
-				[]
-			);
-			setDynamicComponents((prevState) => [
-				...prevState,
-				...componentsToCreate,
-			]);
+			dataAsText = await response.text();
 		}
-	};
+		return provider
+			.parse(dataAsText)
+			.filter(
+				(record, index, records) =>
+					record.id && records.findIndex(({ id }) => id === record.id) === index
+			);
+	} catch (e) {
+		console.error('error in fetchCatalog', e);
+		throw new Error(String(e));
+	}
+}
 
-	/**
-	 * Function that removes a flex component from the list.
-	 *
-	 * @param index - current index of the array
-	 * @returns - returns a new state by filtering out the current index
-	 */
-	const removeFlexComponent = (index: number) => {
-		setDynamicComponents((prevState) => [
-			...prevState.filter((_, i) => index !== i),
-		]);
-	};
+/**
+ * Reads the catalog source shared by every widget in the document.
+ *
+ * @returns - the document catalog source, or the default Google Sheet
+ */
+function getDocumentCatalogSource(): CatalogSourceConfig {
+	const stored = figma.root.getPluginData(DOCUMENT_CATALOG_SOURCE_KEY);
+	if (!stored) {
+		return DEFAULT_CATALOG_SOURCE;
+	}
+	try {
+		return { ...DEFAULT_CATALOG_SOURCE, ...JSON.parse(stored) };
+	} catch (e) {
+		console.error('error in getDocumentCatalogSource', e);
+		return DEFAULT_CATALOG_SOURCE;
+	}
+}
 
-	const openFlexComponentIframe = (id: DynamicComponentsState['id']) => {
-		return new Promise(() => {
-			figma.showUI(__uiFiles__.gsheetData, {
-				title: 'Flex components',
-			});
-			figma.ui.postMessage({
-				gsheetData,
-				id,
-			});
-		});
-	};
+type CatalogIssue = 'notInCatalog' | 'matchesCatalog';
 
-	const changeComponentType = (id: string) => {
-		setDynamicComponents((prevComponents) =>
-			prevComponents.reduce<DynamicComponentsState[]>(
-				(finalState, component) => {
-					const previousType = component.type;
-					return [
-						...finalState,
-						component.id === id
-							? {
-									...component,
-									type:
-										previousType === 'highConfidence'
-											? 'unclear'
-											: 'highConfidence',
-							  }
-							: component,
-					];
-				},
-				[]
-			)
-		);
-	};
+const CATALOG_ISSUE_MESSAGES: Record<CatalogIssue, string> = {
+	notInCatalog: 'Component ID is no longer in the catalog',
+	matchesCatalog: 'Matches a catalog entry, can be promoted',
+};
 
-	/**
-	 * Function that creates the list of flex components dynamically.
-	 * Runs on every click of the plus buttons
-	 *
-	 * @param type - Flex component type
-	 * @param index - current index of the array
-	 * @returns Array - Array of React components
-	 */
-	function generateDynamicComponents(
-		{ id, type, value }: DynamicComponentsState,
-		index: number
-	) {
-		return (
-			<AutoLayout
-				key={id}
-				name={`component-${type}-${id}`}
-				stroke="#DBDBE0"
-				cornerRadius={8}
-				overflow="visible"
-				spacing={8}
-				padding={{
-					vertical: 8,
-					horizontal: 8,
-				}}
-				width="fill-parent"
-				verticalAlignItems="center"
-			>
-				<AutoLayout
-					name="Ellipse"
-					fill={type === 'custom' ? undefined : COMPONENTS_COLOURS_FILL[type]}
-					stroke={type === 'custom' ? '#00000075' : undefined}
-					cornerRadius={100}
-					overflow="visible"
-					width={22}
-					height={22}
-					horizontalAlignItems="center"
-					verticalAlignItems="center"
-					onClick={
-						type === 'custom' ? undefined : () => changeComponentType(id)
+/**
+ * Returns the catalog record a free text name stands for, by ID or by name.
+ *
+ * @param value - value of a row
+ * @param catalog - catalog records
+ * @returns - the matching record, if any
+ */
+function findMatchingRecord(value: string, catalog: CatalogRecord[]) {
+	const normalisedValue = value.trim().toLowerCase();
+	return normalisedValue
+		? catalog.find(
+				({ id, name }) =>
+					id.toLowerCase() === normalisedValue ||
+					name.toLowerCase() === normalisedValue
+		  )
+		: undefined;
+}
+
+/**
+ * Function that checks a row against the catalog.
+ * Nothing is flagged while no catalog was loaded.
+ *
+ * @param component - component row
+ * @param statusType - status type of the row
+ * @param catalog - catalog records
+ * @returns - the problem with the row, or null
+ */
+function validateComponent(
+	{ value }: DynamicComponentsState,
+	{ usesCatalog }: StatusType,
+	catalog: CatalogRecord[]
+): CatalogIssue | null {
+	if (!catalog.length || !value) {
+		return null;
+	}
+	if (usesCatalog) {
+		return catalog.some(({ id }) => id === value) ? null : 'notInCatalog';
+	}
+	return findMatchingRecord(value, catalog) ? 'matchesCatalog' : null;
+}
+
+interface MatchRule {
+	type: MatchRuleType;
+	enabled: boolean;
+	// naming convention pattern for layerName, property name for componentProperty
+	option: string;
+}
+
+type ComponentLikeNode = ComponentNode | ComponentSetNode | InstanceNode;
+
+interface MatchRuleResolver {
+	label: string;
+	resolve: (node: ComponentLikeNode, option: string) => string;
+	// values which are not readable enough to be shown when they miss the catalog
+	catalogOnly?: boolean;
+}
+
+/**
+ * Returns the component an instance or a variant belongs to.
+ *
+ * @param node - component, component set or instance
+ * @returns - the main component, or the component set itself
+ */
+function getMainComponent(node: ComponentLikeNode) {
+	return node.type === 'INSTANCE' ? node.mainComponent : node;
+}
+
+/**
+ * Returns the component set a component belongs to, if any.
+ *
+ * @param node - component, component set or instance
+ * @returns - the component set or null
+ */
+function getComponentSet(node: ComponentLikeNode) {
+	const mainComponent = getMainComponent(node);
+	if (mainComponent?.type === 'COMPONENT_SET') {
+		return mainComponent;
+	}
+	return mainComponent?.parent?.type === 'COMPONENT_SET'
+		? mainComponent.parent
+		: null;
+}
+
+// JavaScript Object which maps matching rules to the way they resolve a component ID
+const MATCH_RULES: Record<MatchRuleType, MatchRuleResolver> = {
+	description: {
+		label: 'description',
+		resolve: (node) =>
+			getMainComponent(node)?.description ||
+			getComponentSet(node)?.description ||
+			'',
+	},
+	componentKey: {
+		label: 'component key (catalog hits only)',
+		resolve: (node) => getMainComponent(node)?.key ?? '',
+		catalogOnly: true,
+	},
+	componentSetName: {
+		label: 'component set name',
+		resolve: (node) =>
+			getComponentSet(node)?.name ?? getMainComponent(node)?.name ?? '',
+	},
+	layerName: {
+		label: 'layer naming convention',
+		resolve: (node, pattern) => {
+			try {
+				const match = node.name.match(new RegExp(pattern));
+				return match?.[1] ?? match?.[0] ?? '';
+			} catch (e) {
+				console.error('error in layerName rule', e);
+				return '';
+			}
+		},
+	},
+	componentProperty: {
+		label: 'component property',
+		resolve: (node, propertyName) => {
+			if (node.type !== 'INSTANCE') {
+				return '';
+			}
+			try {
+				// property names carry a `#id` suffix, except for variant properties
+				const property = Object.entries(node.componentProperties).find(
+					([name]) => name.split('#')[0] === propertyName
+				);
+				return property ? String(property[1].value) : '';
+			} catch (e) {
+				console.error('error in componentProperty rule', e);
+				return '';
+			}
+		},
+	},
+};
+
+const DEFAULT_MATCH_RULES: MatchRule[] = [
+	{ type: 'description', enabled: true, option: '' },
+	{ type: 'componentKey', enabled: true, option: '' },
+	{ type: 'componentSetName', enabled: true, option: '' },
+	{ type: 'layerName', enabled: true, option: '(flex\\.comp\\.[\\w.-]+)' },
+	{ type: 'componentProperty', enabled: false, option: 'flexId' },
+];
+
+/**
+ * Function that resolves the catalog ID of a component with the matching rules.
+ * The first rule which resolves an ID present in the catalog wins, otherwise
+ * the first rule which resolves any readable value is used.
+ *
+ * @param node - component, component set or instance
+ * @param rules - ordered matching rules
+ * @param isInCatalog - whether an ID is part of the catalog
+ * @returns - the resolved value and the rule which produced it
+ */
+function resolveComponentId(
+	node: ComponentLikeNode,
+	rules: MatchRule[],
+	isInCatalog: (componentId: string) => boolean
+) {
+	const resolved = rules
+		.filter(({ enabled }) => enabled)
+		.map(({ type, option }) => ({
+			value: MATCH_RULES[type].resolve(node, option).trim(),
+			matchedBy: type,
+		}))
+		.filter(({ value }) => value);
+	return (
+		resolved.find(({ value }) => isInCatalog(value)) ??
+		resolved.find(({ matchedBy }) => !MATCH_RULES[matchedBy].catalogOnly)
+	);
+}
+
+interface ImportOptions {
+	// how many levels below the selected layers are scanned
+	maxDepth: number;
+	// hidden layers and everything inside them are skipped
+	skipHidden: boolean;
+	// every imported row exports a preview of its layer
+	captureThumbnails: boolean;
+	// ordered rules used to resolve the catalog ID of a component
+	matchRules: MatchRule[];
+}
+
+const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+	maxDepth: 10,
+	skipHidden: true,
+	captureThumbnails: true,
+	matchRules: DEFAULT_MATCH_RULES,
+};
+
+/**
+ * Function that reads the variant and component property values of an instance.
+ * Instance swaps are captured with the name of the swapped component.
+ *
+ * @param node - instance
+ * @returns Array - property values, variants first
+ */
+function captureProperties(node: InstanceNode): CapturedProperty[] {
+	// instances of deleted or broken components and component sets with errors throw when read
+	try {
+		const componentSet = getComponentSet(node);
+		// variants hold no property definitions, their component set does
+		const definitions =
+			(componentSet ?? node.mainComponent)?.componentPropertyDefinitions ?? {};
+		return Object.entries(node.componentProperties)
+			.map(([propertyName, { type, value }]) => {
+				const swappedComponent =
+					type === 'INSTANCE_SWAP' ? figma.getNodeById(String(value)) : null;
+				return {
+					name: propertyName.split('#')[0],
+					value: swappedComponent ? swappedComponent.name : String(value),
+					type,
+					overridden:
+						type !== 'VARIANT' &&
+						definitions[propertyName]?.defaultValue !== value,
+				};
+			})
+			.sort(
+				(a, b) => Number(b.type === 'VARIANT') - Number(a.type === 'VARIANT')
+			);
+	} catch (e) {
+		console.error('error in captureProperties', e);
+		return [];
+	}
+}
+
+// property chips per line in the widget, as auto layouts do not wrap
+const PROPERTY_CHIPS_PER_LINE = 3;
+
+/**
+ * Formats captured properties the way they are shown in chips and exports.
+ *
+ * @param properties - captured properties
+ * @returns - comma separated name=value pairs
+ */
+const formatProperties = (properties: CapturedProperty[] = []) =>
+	properties.map(({ name, value }) => `${name}=${value}`).join(', ');
+
+/**
+ * Function that reads the properties of an imported row, skipping malformed entries.
+ *
+ * @param properties - properties of an exported component
+ * @returns - captured properties, or undefined when there are none
+ */
+function toCapturedProperties(
+	properties: unknown
+): CapturedProperty[] | undefined {
+	if (!Array.isArray(properties)) {
+		return undefined;
+	}
+	const capturedProperties = properties
+		.filter(
+			(property): property is { [key: string]: unknown } =>
+				isObject(property) &&
+				typeof property.name === 'string' &&
+				typeof property.value === 'string'
+		)
+		.map(({ name, value, type, overridden }) => ({
+			name: String(name),
+			value: String(value),
+			type: (typeof type === 'string' ? type : 'TEXT') as ComponentPropertyType,
+			overridden: Boolean(overridden),
+		}));
+	return capturedProperties.length ? capturedProperties : undefined;
+}
+
+// placeholders look like {{props}}, {{name}} or {{Size}}
+const CODE_TEMPLATE_PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+const toCamelCase = (text: string) =>
+	text
+		.trim()
+		.replace(/[^a-zA-Z0-9]+(.)?/g, (_, char?: string) =>
+			char ? char.toUpperCase() : ''
+		)
+		.replace(/^./, (char) => char.toLowerCase());
+
+const toPascalCase = (text: string) => {
+	const camelCase = toCamelCase(text);
+	return camelCase.charAt(0).toUpperCase() + camelCase.slice(1);
+};
+
+/**
+ * Formats captured properties as JSX-like props, booleans as flags.
+ *
+ * @param properties - captured properties
+ * @returns - space separated props
+ */
+function formatCodeProps(properties: CapturedProperty[] = []) {
+	return properties
+		.map(({ name, value, type }) => {
+			const propName = toCamelCase(name);
+			if (type === 'BOOLEAN') {
+				return value === 'true' ? propName : `${propName}={false}`;
+			}
+			return `${propName}="${value.replace(/"/g, '\\"')}"`;
+		})
+		.join(' ');
+}
+
+/**
+ * Function that generates the code snippet of a row from the template of its catalog record.
+ * Templates can use {{id}}, {{name}}, {{componentName}}, {{props}} and the name of
+ * any captured property. Components without a template get a generic JSX tag.
+ *
+ * @param component - component row
+ * @param record - catalog record of the row, if any
+ * @returns - code snippet
+ */
+function generateCodeSnippet(
+	{ value, properties = [] }: DynamicComponentsState,
+	record?: CatalogRecord
+) {
+	const componentName = toPascalCase(
+		record?.name || value.split('.').pop() || 'Component'
+	);
+	const props = formatCodeProps(properties);
+	if (!record?.codeTemplate) {
+		return props ? `<${componentName} ${props} />` : `<${componentName} />`;
+	}
+	const placeholders = properties.reduce<{ [key: string]: string }>(
+		(finalPlaceholders, property) => ({
+			...finalPlaceholders,
+			[property.name]: property.value,
+			[toCamelCase(property.name)]: property.value,
+		}),
+		{ id: value, name: record.name, componentName, props }
+	);
+	return record.codeTemplate.replace(
+		CODE_TEMPLATE_PLACEHOLDER,
+		(_, key: string) => placeholders[key] ?? ''
+	);
+}
+
+interface ImportCandidate {
+	node: SceneNode;
+	value: string;
+	matchedBy?: MatchRuleType;
+	properties?: CapturedProperty[];
+	// frames which hold no components are imported as custom components
+	isCustom: boolean;
+}
+
+/**
+ * Function that walks the subtree of every selected layer looking for components.
+ * Component sets are not entered, so variants are not imported one by one.
+ *
+ * @param selection - selected layers, scanned at depth 0
+ * @param options - import options
+ * @param isInCatalog - whether an ID is part of the catalog
+ * @returns - the components found and how many layers were scanned
+ */
+function scanSelection(
+	selection: readonly SceneNode[],
+	{ maxDepth, skipHidden, matchRules }: ImportOptions,
+	isInCatalog: (componentId: string) => boolean
+) {
+	const candidates: ImportCandidate[] = [];
+	let scannedCount = 0;
+	const walk = (node: SceneNode, depth: number) => {
+		if (skipHidden && !node.visible) {
+			return;
+		}
+		scannedCount++;
+		if (
+			node.type === 'COMPONENT' ||
+			node.type === 'COMPONENT_SET' ||
+			node.type === 'INSTANCE'
+		) {
+			const resolved = resolveComponentId(node, matchRules, isInCatalog);
+			candidates.push({
+				node,
+				value:
+					resolved?.value ??
+					(node.type === 'INSTANCE' ? '' : 'no description present!'),
+				matchedBy: resolved?.matchedBy,
+				properties:
+					node.type === 'INSTANCE' ? captureProperties(node) : undefined,
+				isCustom: false,
+			});
+		}
+		if (
+			node.type === 'COMPONENT_SET' ||
+			depth >= maxDepth ||
+			!('children' in node)
+		) {
+			return;
+		}
+		const candidatesCount = candidates.length;
+		node.children.forEach((child) => walk(child, depth + 1));
+		if (
+			node.type === 'FRAME' &&
+			depth === 1 &&
+			candidates.length === candidatesCount
+		) {
+			candidates.push({ node, value: node.name, isCustom: true });
+		}
+	};
+	selection.forEach((node) => walk(node, 0));
+	return { candidates, scannedCount };
+}
+
+interface AuditFinding {
+	label: string;
+	nodeIds: string[];
+}
+
+interface CoverageAudit {
+	instanceCount: number;
+	mappedCount: number;
+	// instances which resolve to no catalog ID, grouped by component
+	offCatalog: AuditFinding[];
+	// frames named after a component, most likely detached instances
+	detachedFrames: AuditFinding[];
+	// instances whose main component and component set have no description
+	missingDescription: AuditFinding[];
+}
+
+/**
+ * Turns a map of labels to node IDs into findings, biggest group first.
+ *
+ * @param groups - node IDs grouped by label
+ * @returns - sorted findings
+ */
+function toAuditFindings(groups: Map<string, string[]>): AuditFinding[] {
+	return Array.from(groups.entries())
+		.map(([label, nodeIds]) => ({ label, nodeIds }))
+		.sort(
+			(a, b) =>
+				b.nodeIds.length - a.nodeIds.length || a.label.localeCompare(b.label)
+		);
+}
+
+/**
+ * Function that measures how much of a selection is built from catalog components.
+ * Instances are not entered, their internals belong to the component itself.
+ *
+ * @param selection - selected layers, scanned at depth 0
+ * @param options - import options, the audit resolves IDs like the import does
+ * @param catalog - catalog records
+ * @returns - coverage numbers and grouped findings
+ */
+function auditSelection(
+	selection: readonly SceneNode[],
+	{ maxDepth, skipHidden, matchRules }: ImportOptions,
+	catalog: CatalogRecord[]
+): CoverageAudit {
+	const isInCatalog = (componentId: string) =>
+		catalog.some(({ id }) => id === componentId);
+	const normaliseName = (name: string) => name.trim().toLowerCase();
+	const componentNames = new Set(
+		catalog
+			.reduce<string[]>(
+				(finalNames, { id, name }) => [...finalNames, id, name],
+				[]
+			)
+			.filter(Boolean)
+			.map(normaliseName)
+	);
+	const frames: FrameNode[] = [];
+	const offCatalog = new Map<string, string[]>();
+	const missingDescription = new Map<string, string[]>();
+	const addToGroup = (
+		groups: Map<string, string[]>,
+		label: string,
+		nodeId: string
+	) => groups.set(label, [...(groups.get(label) ?? []), nodeId]);
+	let instanceCount = 0;
+	let mappedCount = 0;
+
+	const walk = (node: SceneNode, depth: number) => {
+		if (skipHidden && !node.visible) {
+			return;
+		}
+		if (node.type === 'INSTANCE') {
+			instanceCount++;
+			const componentName =
+				getComponentSet(node)?.name ??
+				getMainComponent(node)?.name ??
+				node.name;
+			componentNames.add(normaliseName(componentName));
+			const resolved = resolveComponentId(node, matchRules, isInCatalog);
+			if (resolved && isInCatalog(resolved.value)) {
+				mappedCount++;
+			} else {
+				addToGroup(offCatalog, componentName, node.id);
+			}
+			if (!MATCH_RULES.description.resolve(node, '')) {
+				addToGroup(missingDescription, componentName, node.id);
+			}
+			return;
+		}
+		if (node.type === 'FRAME') {
+			frames.push(node);
+		}
+		if (
+			node.type === 'COMPONENT_SET' ||
+			depth >= maxDepth ||
+			!('children' in node)
+		) {
+			return;
+		}
+		node.children.forEach((child) => walk(child, depth + 1));
+	};
+	selection.forEach((node) => walk(node, 0));
+
+	// component names are only all known once the whole selection was walked
+	const detachedFrames = new Map<string, string[]>();
+	frames
+		.filter(({ name }) => componentNames.has(normaliseName(name)))
+		.forEach(({ name, id }) => addToGroup(detachedFrames, name, id));
+
+	return {
+		instanceCount,
+		mappedCount,
+		offCatalog: toAuditFindings(offCatalog),
+		detachedFrames: toAuditFindings(detachedFrames),
+		missingDescription: toAuditFindings(missingDescription),
+	};
+}
+
+// bump when the shape of the exported JSON changes
+const SPEC_SCHEMA_VERSION = 1;
+
+type ExportFormat = 'json' | 'markdown' | 'csv';
+
+interface SpecExportComponent {
+	number: number;
+	type: ComponentTypes;
+	typeLabel: string;
+	componentId: string;
+	name: string;
+	details: ComponentDetails;
+	properties: CapturedProperty[];
+}
+
+interface SpecExportNote {
+	author: string;
+	createdAt: string;
+	text: string;
+	resolved: boolean;
+}
+
+interface SpecExport {
+	schemaVersion: number;
+	title: string;
+	exportedAt: string;
+	components: SpecExportComponent[];
+	notes: SpecExportNote[];
+}
+
+interface SpecExporter {
+	label: string;
+	extension: string;
+	mimeType: string;
+	serialize: (spec: SpecExport) => string;
+}
+
+/**
+ * Function that builds the versioned export of a spec.
+ *
+ * @param title - screen title
+ * @param components - component rows in spec order
+ * @param notes - notes thread
+ * @param findCatalogRecord - catalog lookup used for display names
+ * @param statusTypes - status types of the spec
+ * @returns - spec export
+ */
+function toSpecExport(
+	title: string,
+	components: DynamicComponentsState[],
+	notes: SpecNote[],
+	findCatalogRecord: (componentId: string) => CatalogRecord | undefined,
+	statusTypes: StatusType[]
+): SpecExport {
+	return {
+		schemaVersion: SPEC_SCHEMA_VERSION,
+		title,
+		exportedAt: new Date().toISOString(),
+		components: components.map(
+			({ type, value, details, properties }, index) => ({
+				number: index + 1,
+				type,
+				typeLabel: getStatusType(statusTypes, type).label,
+				componentId: value,
+				name: findCatalogRecord(value)?.name ?? '',
+				details: { ...EMPTY_COMPONENT_DETAILS, ...details },
+				properties: properties ?? [],
+			})
+		),
+		notes: notes
+			.filter(({ text }) => text.trim())
+			.map(({ author, createdAt, text, resolved }) => ({
+				author: author.name,
+				createdAt: new Date(createdAt).toISOString(),
+				text,
+				resolved,
+			})),
+	};
+}
+
+const escapeCsvCell = (cell: string | number | boolean) => {
+	const text = String(cell);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeMarkdownCell = (cell: string) =>
+	cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const SPEC_CSV_COLUMNS = [
+	'section',
+	'number',
+	'type',
+	'typeLabel',
+	'componentId',
+	'name',
+	'properties',
+	...COMPONENT_DETAIL_FIELDS,
+	'author',
+	'date',
+	'text',
+	'resolved',
+];
+
+// JavaScript Object which maps export formats to their serializers
+const SPEC_EXPORTERS: Record<ExportFormat, SpecExporter> = {
+	json: {
+		label: 'JSON',
+		extension: 'json',
+		mimeType: 'application/json',
+		serialize: (spec) => JSON.stringify(spec, null, 2),
+	},
+	markdown: {
+		label: 'Markdown',
+		extension: 'md',
+		mimeType: 'text/markdown',
+		serialize: ({ title, components, notes }) =>
+			[
+				`# ${title || 'Untitled screen'}`,
+				'',
+				'## Components',
+				'',
+				'| # | Type | Component ID | Name | Properties |',
+				'| - | ---- | ------------ | ---- | ---------- |',
+				...components.map(
+					({ number, typeLabel, componentId, name, properties }) =>
+						`| ${number} | ${escapeMarkdownCell(
+							typeLabel
+						)} | \`${escapeMarkdownCell(componentId)}\` | ${escapeMarkdownCell(
+							name
+						)} | ${escapeMarkdownCell(formatProperties(properties))} |`
+				),
+				...(notes.length
+					? [
+							'',
+							'## Notes',
+							'',
+							...notes.map(
+								({ author, createdAt, text, resolved }) =>
+									`- ${resolved ? '~~' : ''}${text.replace(/\n/g, ' ')}${
+										resolved ? '~~' : ''
+									} — ${author}, ${formatDate(Date.parse(createdAt))}`
+							),
+					  ]
+					: []),
+				...(components.some(({ details }) => getFilledDetails(details).length)
+					? [
+							'',
+							'## Component details',
+							...components
+								.filter(({ details }) => getFilledDetails(details).length)
+								.reduce<string[]>(
+									(finalLines, { number, componentId, details }) => [
+										...finalLines,
+										'',
+										`### ${number}. ${componentId || 'Untitled component'}`,
+										'',
+										...getFilledDetails(details).map(
+											({ field, value }) =>
+												`- **${
+													COMPONENT_DETAIL_LABELS[field]
+												}:** ${value.replace(/\n/g, ' ')}`
+										),
+									],
+									[]
+								),
+					  ]
+					: []),
+				'',
+			].join('\n'),
+	},
+	csv: {
+		label: 'CSV',
+		extension: 'csv',
+		mimeType: 'text/csv',
+		// components and notes share one table, told apart by the section column
+		serialize: ({ components, notes }) => {
+			const rows: { [column: string]: string | number | boolean }[] = [
+				...components.map(
+					({
+						number,
+						type,
+						typeLabel,
+						componentId,
+						name,
+						properties,
+						details,
+					}) => ({
+						section: 'component',
+						number,
+						type,
+						typeLabel,
+						componentId,
+						name,
+						properties: formatProperties(properties),
+						...details,
+					})
+				),
+				...notes.map(({ author, createdAt, text, resolved }) => ({
+					section: 'note',
+					author,
+					date: createdAt,
+					text,
+					resolved,
+				})),
+			];
+			return [
+				SPEC_CSV_COLUMNS,
+				...rows.map((row) =>
+					SPEC_CSV_COLUMNS.map((column) => row[column] ?? '')
+				),
+			]
+				.map((cells) => cells.map(escapeCsvCell).join(','))
+				.join('\n');
+		},
+	},
+};
+
+type SpecImportMode = 'replace' | 'merge';
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads the details of an imported row, ignoring unknown fields and values which are not text.
+ *
+ * @param details - details of an exported component
+ * @returns - row details, or undefined when none are filled in
+ */
+function toComponentDetails(details: unknown): ComponentDetails | undefined {
+	if (!isObject(details)) {
+		return undefined;
+	}
+	const componentDetails = COMPONENT_DETAIL_FIELDS.reduce<ComponentDetails>(
+		(finalDetails, field) =>
+			typeof details[field] === 'string'
+				? { ...finalDetails, [field]: details[field] }
+				: finalDetails,
+		EMPTY_COMPONENT_DETAILS
+	);
+	return getFilledDetails(componentDetails).length
+		? componentDetails
+		: undefined;
+}
+
+/**
+ * Function that parses and validates an exported spec.
+ *
+ * @param content - JSON text of the spec
+ * @returns - the validated spec export
+ * @throws - Error describing the first problem found
+ */
+function parseSpecImport(content: string): SpecExport {
+	let spec: unknown;
+	try {
+		spec = JSON.parse(content);
+	} catch (e) {
+		throw new Error('The spec is not valid JSON');
+	}
+	if (!isObject(spec)) {
+		throw new Error('The spec must be a JSON object');
+	}
+	const { schemaVersion, title, components, notes } = spec;
+	if (
+		typeof schemaVersion !== 'number' ||
+		schemaVersion > SPEC_SCHEMA_VERSION
+	) {
+		throw new Error(`Unsupported schema version: ${String(schemaVersion)}`);
+	}
+	if (typeof title !== 'string') {
+		throw new Error('"title" must be a string');
+	}
+	if (!Array.isArray(components)) {
+		throw new Error('"components" must be an array');
+	}
+	components.forEach((component, index) => {
+		if (
+			!isObject(component) ||
+			typeof component.type !== 'string' ||
+			!component.type ||
+			typeof component.componentId !== 'string'
+		) {
+			throw new Error(
+				`Component ${index + 1} needs a valid "type" and a "componentId"`
+			);
+		}
+	});
+	if (notes !== undefined && !Array.isArray(notes)) {
+		throw new Error('"notes" must be an array');
+	}
+	(notes ?? []).forEach((note: unknown, index: number) => {
+		if (
+			!isObject(note) ||
+			typeof note.text !== 'string' ||
+			typeof note.author !== 'string'
+		) {
+			throw new Error(`Note ${index + 1} needs a "text" and an "author"`);
+		}
+	});
+	return spec as unknown as SpecExport;
+}
+
+interface SpecIndexEntry {
+	widgetNodeId: string;
+	pageName: string;
+	title: string;
+	isFinalized: boolean;
+	// every row of the spec, custom rows included
+	components: (Omit<SpecExportComponent, 'details' | 'properties'> & {
+		usesCatalog: boolean;
+	})[];
+	// row counts by status type label, widgets may use different status types
+	counts: Record<string, number>;
+}
+
+/**
+ * Function that reads the synced state of every Flex Spec widget in the document.
+ *
+ * @returns Array - one entry per widget, in page order
+ */
+function collectSpecIndex(): SpecIndexEntry[] {
+	return figma.root.children.reduce<SpecIndexEntry[]>(
+		(finalEntries, page) => [
+			...finalEntries,
+			...page
+				.findAllWithCriteria({ types: ['WIDGET'] })
+				.filter(({ widgetId }) => widgetId === figma.widgetId)
+				.map(({ id, widgetSyncedState }) => {
+					const components: DynamicComponentsState[] =
+						widgetSyncedState.dynamicComponents ?? [];
+					const statusTypes: StatusType[] =
+						widgetSyncedState.statusTypes ?? getDocumentStatusTypes();
+					return {
+						widgetNodeId: id,
+						pageName: page.name,
+						title: widgetSyncedState.title || 'Untitled screen',
+						isFinalized: Boolean(widgetSyncedState.isFinalized),
+						components: components.map(({ type, value }, index) => {
+							const { label, usesCatalog } = getStatusType(statusTypes, type);
+							return {
+								number: index + 1,
+								type,
+								typeLabel: label,
+								componentId: value,
+								name: '',
+								usesCatalog,
+							};
+						}),
+						counts: components.reduce<Record<string, number>>(
+							(finalCounts, { type }) => {
+								const { label } = getStatusType(statusTypes, type);
+								return {
+									...finalCounts,
+									[label]: (finalCounts[label] ?? 0) + 1,
+								};
+							},
+							{}
+						),
+					};
+				}),
+		],
+		[]
+	);
+}
+
+function Widget() {
+	// single note of widgets created before the notes thread, migrated into notes
+	const [note, setNote] = useSyncedState('note', '');
+	const [notes, setNotes] = useSyncedState<SpecNote[]>('notes', []);
+	const [title, setTitle] = useSyncedState('title', '');
+	const [dynamicComponents, setDynamicComponents] = useSyncedState<
+		DynamicComponentsState[]
+	>('dynamicComponents', []);
+	// PNG data URIs of the first linked layer keyed by row ID, kept out of the
+	// rows so history snapshots and removed rows do not copy them
+	const thumbnails = useSyncedMap<string>('thumbnails');
+	const [gsheetData, setGsheetData] = useSyncedState<CatalogRecord[] | null>(
+		'gsheetData',
+		null
+	);
+	// null means the widget follows the document catalog source
+	const [catalogSource, setCatalogSource] =
+		useSyncedState<CatalogSourceConfig | null>('catalogSource', null);
+	const [catalogStatus, setCatalogStatus] = useSyncedState<CatalogStatus>(
+		'catalogStatus',
+		INITIAL_CATALOG_STATUS
+	);
+	const [importOptions, setImportOptions] = useSyncedState<ImportOptions>(
+		'importOptions',
+		DEFAULT_IMPORT_OPTIONS
+	);
+	const [linkIssues, setLinkIssues] = useSyncedState<LinkIssues>(
+		'linkIssues',
+		{}
+	);
+	const [badgeIds, setBadgeIds] = useSyncedState<BadgeIds>('badgeIds', {});
+	const [specAuthorship, setSpecAuthorship] =
+		useSyncedState<SpecAuthorship | null>('specAuthorship', null);
+	const [editLog, setEditLog] = useSyncedState<EditLogEntry[]>('editLog', []);
+	// a finalized spec is rendered read-only until it is reopened
+	const [isFinalized, setIsFinalized] = useSyncedState('isFinalized', false);
+	const [isReordering, setIsReordering] = useSyncedState('isReordering', false);
+	// null means the widget follows the document status types
+	const [widgetStatusTypes, setWidgetStatusTypes] = useSyncedState<
+		StatusType[] | null
+	>('statusTypes', null);
+	const [history, setHistory] = useSyncedState<SpecHistory>(
+		'history',
+		INITIAL_SPEC_HISTORY
+	);
+	const [removedComponents, setRemovedComponents] = useSyncedState<
+		RemovedComponent[]
+	>('removedComponents', []);
+	const [isShowingRemoved, setIsShowingRemoved] = useSyncedState(
+		'isShowingRemoved',
+		false
+	);
+	// the filter is synced to every viewer, so it keeps the person who turned it on
+	const [assignedFilterUser, setAssignedFilterUser] =
+		useSyncedState<Author | null>('assignedFilterUser', null);
+	const [expandedComponentIds, setExpandedComponentIds] = useSyncedState<
+		DynamicComponentsState['id'][]
+	>('expandedComponentIds', []);
+	// compact view hides the legend, the actions already live in the property menu
+	const [isCompact, setIsCompact] = useSyncedState('isCompact', false);
+	const [statusFilter, setStatusFilter] = useSyncedState<string>(
+		'statusFilter',
+		ALL_STATUS_TYPES
+	);
+	const widgetId = useWidgetId();
+	// console.log({ dynamicComponents });
+
+	const statusTypes = widgetStatusTypes ?? getDocumentStatusTypes();
+	const activeCatalogSource = catalogSource ?? getDocumentCatalogSource();
+
+	const findCatalogRecord = (componentId: string) =>
+		gsheetData?.find(({ id }) => id === componentId);
+
+	const findStatusType = (type: ComponentTypes) =>
+		getStatusType(statusTypes, type);
+
+	// a filter on a deleted status type shows every row
+	const matchesStatusFilter = (type: ComponentTypes) =>
+		statusFilter === ALL_STATUS_TYPES ||
+		type === statusFilter ||
+		!statusTypes.some(({ id }) => id === statusFilter);
+
+	/**
+	 * Function that fetches the catalog and caches it in the synced state.
+	 * A failed fetch keeps the last good copy of the catalog in use.
+	 *
+	 * @param source - catalog source, defaults to the one the widget follows
+	 * @returns - the fetched records, or null when the fetch failed
+	 */
+	const loadCatalog = async (
+		source = catalogSource ?? getDocumentCatalogSource()
+	) => {
+		setCatalogStatus((prevStatus) => ({
+			...prevStatus,
+			attemptedAt: Date.now(),
+		}));
+		try {
+			const records = await fetchCatalog(source);
+			setGsheetData(records);
+			setCatalogStatus({
+				fetchedAt: Date.now(),
+				attemptedAt: Date.now(),
+				error: '',
+			});
+			return records;
+		} catch (e) {
+			console.error('error in loadCatalog', String(e));
+			setCatalogStatus((prevStatus) => ({ ...prevStatus, error: String(e) }));
+			return null;
+		}
+	};
+
+	/**
+	 * Function that turns free text rows matching a catalog entry into catalog rows.
+	 *
+	 * @param ids - IDs of the rows to promote
+	 * @param catalog - catalog records the rows are matched against
+	 */
+	const promoteFlexComponents = (
+		ids: DynamicComponentsState['id'][],
+		catalog = gsheetData ?? []
+	) => {
+		// rows of a final spec are read only and keep their type
+		if (isFinalized) {
+			return;
+		}
+		const type = getDefaultStatusType(statusTypes, true);
+		logEdit(
+			'components',
+			`Promoted ${ids.length} custom ${
+				ids.length === 1 ? 'component' : 'components'
+			} to ${findStatusType(type).label}`
+		);
+		setDynamicComponents((prevState) =>
+			prevState.map((component) => {
+				const record = ids.includes(component.id)
+					? findMatchingRecord(component.value, catalog)
+					: undefined;
+				return record ? { ...component, type, value: record.id } : component;
+			})
+		);
+	};
+
+	/**
+	 * Function that validates the rows against freshly loaded records and reports
+	 * outdated and promotable rows. After a manual refresh the promise only resolves
+	 * once the notification is dequeued, so its Promote button still runs while the
+	 * caller awaits it. Automatic reloads leave promotion to the per-row links, as
+	 * waiting would keep the background task alive and close any UI opened meanwhile.
+	 *
+	 * @param records - freshly loaded catalog records
+	 * @param isManualRefresh - whether the user asked for the refresh
+	 */
+	const notifyCatalogIssues = (
+		records: CatalogRecord[],
+		isManualRefresh: boolean
+	) =>
+		new Promise<void>((resolve) => {
+			// rows are validated against the fresh records, the synced state is only updated on the next render
+			const issues = dynamicComponents.map((component) => ({
+				component,
+				issue: validateComponent(
+					component,
+					findStatusType(component.type),
+					records
+				),
+			}));
+			const outdatedCount = issues.filter(
+				({ issue }) => issue === 'notInCatalog'
+			).length;
+			// rows of a final spec can not be promoted
+			const promotableIds = isFinalized
+				? []
+				: issues
+						.filter(({ issue }) => issue === 'matchesCatalog')
+						.map(({ component }) => component.id);
+			const details = [
+				outdatedCount
+					? `${outdatedCount} ${
+							outdatedCount === 1 ? 'row is' : 'rows are'
+					  } no longer in the catalog`
+					: '',
+				promotableIds.length ? `${promotableIds.length} can be promoted` : '',
+			]
+				.filter(Boolean)
+				.join(', ');
+			if (!details && !isManualRefresh) {
+				resolve();
+				return;
+			}
+			const message = isManualRefresh
+				? `Catalog refreshed! ${details}`.trim()
+				: `Catalog updated: ${details}`;
+			if (!promotableIds.length || !isManualRefresh) {
+				figma.notify(message);
+				resolve();
+				return;
+			}
+			figma.notify(message, {
+				timeout: 10000,
+				button: {
+					text: 'Promote',
+					action: () => promoteFlexComponents(promotableIds, records),
+				},
+				onDequeue: () => resolve(),
+			});
+		});
+
+	const refreshCatalog = async () => {
+		const records = await loadCatalog();
+		if (!records) {
+			figma.notify('Catalog refresh failed, using the cached copy');
+			return;
+		}
+		await notifyCatalogIssues(records, true);
+	};
+
+	useEffect(() => {
+		const { ttlMinutes } = {
+			...DEFAULT_CATALOG_SOURCE,
+			...(catalogSource ?? getDocumentCatalogSource()),
+		};
+		const isStale =
+			!catalogStatus.attemptedAt ||
+			Date.now() - catalogStatus.attemptedAt > ttlMinutes * 60 * 1000;
+		// widgets created before catalog records were introduced hold plain IDs
+		if (gsheetData && typeof gsheetData[0] === 'string') {
+			setGsheetData(
+				(gsheetData as unknown as string[]).map((id) =>
+					toCatalogRecord([], [id])
+				)
+			);
+		}
+		if (isStale) {
+			waitForTask(
+				new Promise(async (resolve) => {
+					figma.showUI(``, { visible: false });
+					const records = await loadCatalog();
+					if (records) {
+						await notifyCatalogIssues(records, false);
 					}
-				>
-					<Text
-						name="number"
-						fill={type === 'custom' ? COMPONENTS_COLOURS_FILL.custom : '#FFF'}
-						fontWeight={600}
-						width={6}
-						verticalAlignText="center"
-						horizontalAlignText="center"
-						fontFamily="Inter"
-						fontSize={12}
-						letterSpacing={0.1}
-					>
-						{index + 1}
-					</Text>
-				</AutoLayout>
+					figma.closePlugin();
+					resolve(null);
+				})
+			);
+		}
+	});
+
+	useEffect(() => {
+		// the first render of a new widget happens for the user who inserted it,
+		// widgets which already hold content were spec-ed before authorship was kept
+		if (!specAuthorship) {
+			const hasContent = Boolean(
+				title || note || dynamicComponents.length || notes.length
+			);
+			const author = hasContent ? UNKNOWN_AUTHOR : getCurrentAuthor();
+			const at = Date.now();
+			setSpecAuthorship({
+				createdBy: author,
+				createdAt: at,
+				editedBy: author,
+				editedAt: at,
+			});
+		}
+	});
+
+	/**
+	 * Function that keeps the spec as it is before a change, so the change can be undone.
+	 * Making a new change drops the changes which were undone.
+	 *
+	 * @param summary - human readable description of the change
+	 */
+	const recordHistory = (summary: string) => {
+		setHistory((prevHistory) => ({
+			past: [
+				...prevHistory.past,
+				{ title, dynamicComponents, notes, summary },
+			].slice(-MAX_HISTORY_ENTRIES),
+			future: [],
+		}));
+	};
+
+	/**
+	 * Function that records a change to the spec in the edit log,
+	 * marking the current user as the last editor.
+	 *
+	 * @param subject - what part of the spec changed
+	 * @param summary - human readable description of the change
+	 */
+	const logEdit = (subject: EditSubject, summary: string) => {
+		if (UNDOABLE_EDIT_SUBJECTS.includes(subject)) {
+			recordHistory(summary);
+		}
+		const author = getCurrentAuthor();
+		const at = Date.now();
+		setEditLog((prevLog) =>
+			[...prevLog, { id: uid(), author, subject, summary, at }].slice(
+				-MAX_EDIT_LOG_ENTRIES
+			)
+		);
+		setSpecAuthorship((prevAuthorship) => ({
+			createdBy: prevAuthorship?.createdBy ?? author,
+			createdAt: prevAuthorship?.createdAt ?? at,
+			editedBy: author,
+			editedAt: at,
+		}));
+	};
+
+	const undo = () => {
+		const previous = history.past[history.past.length - 1];
+		if (!previous) {
+			return;
+		}
+		setHistory({
+			past: history.past.slice(0, -1),
+			future: [
+				{ title, dynamicComponents, notes, summary: previous.summary },
+				...history.future,
+			],
+		});
+		setTitle(previous.title);
+		setDynamicComponents(previous.dynamicComponents);
+		setNotes(previous.notes);
+		logEdit('spec', `Undid "${previous.summary}"`);
+	};
+
+	const redo = () => {
+		const [next, ...future] = history.future;
+		if (!next) {
+			return;
+		}
+		setHistory({
+			past: [
+				...history.past,
+				{ title, dynamicComponents, notes, summary: next.summary },
+			].slice(-MAX_HISTORY_ENTRIES),
+			future,
+		});
+		setTitle(next.title);
+		setDynamicComponents(next.dynamicComponents);
+		setNotes(next.notes);
+		logEdit('spec', `Redid "${next.summary}"`);
+	};
+
+	useEffect(() => {
+		figma.ui.onmessage = async (message) => {
+			if (message.type === 'searchitemselection') {
+				setDynamicComponents((prevComponents) =>
+					prevComponents.reduce<DynamicComponentsState[]>(
+						(finalState, component) => {
+							return [
+								...finalState,
+								component.id === message.id
+									? { ...component, value: message.value, matchedBy: undefined }
+									: component,
+							];
+						},
+						[]
+					)
+				);
+				logEdit(
+					'components',
+					`Picked ${message.value} for component #${
+						dynamicComponents.findIndex(({ id }) => id === message.id) + 1
+					}`
+				);
+				figma.closePlugin('Applied with success!');
+			}
+			if (message.type === 'searchclose') {
+				figma.closePlugin();
+			}
+			if (message.type === 'assigneeselection') {
+				assignTo(message.target, message.id, message.assignee);
+				figma.closePlugin();
+			}
+			if (message.type === 'specimport') {
+				try {
+					importSpec(parseSpecImport(message.content), message.mode);
+					figma.closePlugin('Spec imported!');
+				} catch (e) {
+					figma.ui.postMessage({ error: (e as Error).message });
+				}
+			}
+			if (message.type === 'auditselect') {
+				selectLinkedNodes(message.nodeIds);
+			}
+			if (message.type === 'reportjump') {
+				selectLinkedNodes([message.nodeId]);
+			}
+			if (message.type === 'settingssave') {
+				const source: CatalogSourceConfig = message.source;
+				setImportOptions(message.importOptions);
+				const savedStatusTypes = (message.statusTypes as StatusType[]).filter(
+					({ label }) => label.trim()
+				);
+				const nextStatusTypes = savedStatusTypes.length
+					? savedStatusTypes
+					: DEFAULT_STATUS_TYPES;
+				if (message.statusScope === 'document') {
+					figma.root.setPluginData(
+						DOCUMENT_STATUS_TYPES_KEY,
+						JSON.stringify(nextStatusTypes)
+					);
+					setWidgetStatusTypes(null);
+				} else {
+					setWidgetStatusTypes(nextStatusTypes);
+				}
+				// rows of deleted status types move to the first status type of the same kind,
+				// rows of a final spec are read only and keep their type
+				if (
+					!isFinalized &&
+					dynamicComponents.some(
+						({ type }) => !nextStatusTypes.some(({ id }) => id === type)
+					)
+				) {
+					setDynamicComponents((prevState) =>
+						prevState.map((component) =>
+							nextStatusTypes.some(({ id }) => id === component.type)
+								? component
+								: {
+										...component,
+										type: getDefaultStatusType(
+											nextStatusTypes,
+											findStatusType(component.type).usesCatalog
+										),
+								  }
+						)
+					);
+					logEdit('components', 'Moved rows of deleted status types');
+				}
+				if (message.scope === 'document') {
+					figma.root.setPluginData(
+						DOCUMENT_CATALOG_SOURCE_KEY,
+						JSON.stringify(source)
+					);
+					setCatalogSource(null);
+				} else {
+					setCatalogSource(source);
+				}
+				const isLoaded = Boolean(await loadCatalog(source));
+				figma.closePlugin(
+					isLoaded
+						? 'Settings saved!'
+						: 'Settings saved, but the catalog could not be fetched'
+				);
+			}
+		};
+	});
+
+	useEffect(() => {
+		const widgetNode = figma.getNodeById(widgetId);
+		const widgetPage = widgetNode && getPage(widgetNode);
+		const issues = dynamicComponents.reduce<LinkIssues>(
+			(finalIssues, { id, nodeIds }) => {
+				if (!nodeIds?.length) {
+					return finalIssues;
+				}
+				const linkedNodes = getLinkedNodes(nodeIds);
+				if (!linkedNodes.length) {
+					return { ...finalIssues, [id]: 'deleted' };
+				}
+				if (linkedNodes.length < nodeIds.length) {
+					return { ...finalIssues, [id]: 'partlyDeleted' };
+				}
+				if (linkedNodes.some((node) => getPage(node) !== widgetPage)) {
+					return { ...finalIssues, [id]: 'offPage' };
+				}
+				return finalIssues;
+			},
+			{}
+		);
+		if (JSON.stringify(issues) !== JSON.stringify(linkIssues)) {
+			setLinkIssues(issues);
+		}
+	});
+
+	useEffect(() => {
+		const isOutdated = Object.entries(badgeIds).some(([rowId, rowBadgeIds]) => {
+			const index = dynamicComponents.findIndex(({ id }) => id === rowId);
+			return (
+				index === -1 ||
+				rowBadgeIds.some(
+					(badgeId) =>
+						getBadge(badgeId)?.getPluginData(BADGE_SIGNATURE_KEY) !==
+						getBadgeSignature(
+							index + 1,
+							findStatusType(dynamicComponents[index].type)
+						)
+				)
+			);
+		});
+		if (isOutdated) {
+			waitForTask(syncBadges());
+		}
+	});
+
+	useEffect(() => {
+		if (note) {
+			setNotes((prevNotes) => [
+				{
+					id: uid(),
+					text: note,
+					author: UNKNOWN_AUTHOR,
+					createdAt: Date.now(),
+					resolved: false,
+				},
+				...prevNotes,
+			]);
+			setNote('');
+		}
+		// rows imported before thumbnails moved to their own map hold them inline
+		const legacyRows = dynamicComponents as (DynamicComponentsState & {
+			thumbnail?: string;
+		})[];
+		if (legacyRows.some(({ thumbnail }) => thumbnail)) {
+			legacyRows.forEach(
+				({ id, thumbnail }) => thumbnail && thumbnails.set(id, thumbnail)
+			);
+			setDynamicComponents(
+				legacyRows.map(({ thumbnail, ...component }) => component)
+			);
+		}
+	});
+
+	const importFromSelection = async () => {
+		const { selection } = figma.currentPage;
+		if (selection.length) {
+			const options = { ...DEFAULT_IMPORT_OPTIONS, ...importOptions };
+			const { candidates, scannedCount } = scanSelection(
+				selection,
+				options,
+				(componentId) => Boolean(findCatalogRecord(componentId))
+			);
+			const componentsToCreate = candidates.map<DynamicComponentsState>(
+				({ node, value, matchedBy, properties, isCustom }) => ({
+					id: uid(),
+					type: getDefaultStatusType(
+						statusTypes,
+						!isCustom && Boolean(findCatalogRecord(value))
+					),
+					value,
+					matchedBy,
+					nodeIds: [node.id],
+					properties: properties?.length ? properties : undefined,
+				})
+			);
+			if (options.captureThumbnails) {
+				for (const [index, { node }] of candidates.entries()) {
+					const thumbnail = await exportThumbnail(node);
+					if (thumbnail) {
+						thumbnails.set(componentsToCreate[index].id, thumbnail);
+					}
+				}
+			}
+			setDynamicComponents((prevState) => [
+				...prevState,
+				...componentsToCreate,
+			]);
+			logEdit(
+				'components',
+				`Imported ${componentsToCreate.length} components from selection`
+			);
+			figma.notify(
+				`Scanned ${scannedCount} layers, imported ${componentsToCreate.length} components`
+			);
+		}
+	};
+
+	const auditFromSelection = () => {
+		const { selection } = figma.currentPage;
+		if (!selection.length) {
+			figma.notify('Select the frames to audit first');
+			return;
+		}
+		const audit = auditSelection(
+			selection,
+			{ ...DEFAULT_IMPORT_OPTIONS, ...importOptions },
+			gsheetData ?? []
+		);
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.audit, {
+				title: 'Catalog coverage audit',
+				width: 360,
+				height: 480,
+			});
+			figma.ui.postMessage({
+				audit,
+				selectionNames: selection.map(({ name }) => name),
+			});
+		});
+	};
+
+	/**
+	 * Function that populates the widget from an exported spec.
+	 * Rows and notes get fresh IDs, so the same spec can be imported many times.
+	 *
+	 * @param spec - validated spec export
+	 * @param mode - replace the current spec, or append to it
+	 */
+	const importSpec = (spec: SpecExport, mode: SpecImportMode) => {
+		// status types are matched by ID, then by label, as the spec may come from another document
+		const importedComponents = spec.components.map<DynamicComponentsState>(
+			({ type, typeLabel, componentId, details, properties }) => ({
+				id: uid(),
+				type:
+					(
+						statusTypes.find(({ id }) => id === type) ??
+						statusTypes.find(({ label }) => label === typeLabel)
+					)?.id ??
+					getDefaultStatusType(
+						statusTypes,
+						Boolean(findCatalogRecord(componentId))
+					),
+				value: componentId,
+				details: toComponentDetails(details),
+				properties: toCapturedProperties(properties),
+			})
+		);
+		const importedNotes = (spec.notes ?? []).map<SpecNote>(
+			({ author, createdAt, text, resolved }) => ({
+				id: uid(),
+				text,
+				author: { ...UNKNOWN_AUTHOR, name: author },
+				createdAt: Date.parse(createdAt) || Date.now(),
+				resolved: Boolean(resolved),
+			})
+		);
+		recordHistory(`Imported a spec from JSON (${mode})`);
+		if (mode === 'replace') {
+			setTitle(spec.title);
+			setDynamicComponents(importedComponents);
+			setNotes(importedNotes);
+		} else {
+			setTitle((prevTitle) => prevTitle || spec.title);
+			setDynamicComponents((prevState) => [
+				...prevState,
+				...importedComponents,
+			]);
+			setNotes((prevNotes) => [...prevNotes, ...importedNotes]);
+		}
+		logEdit(
+			'spec',
+			`${mode === 'replace' ? 'Replaced the spec with' : 'Merged'} ${
+				importedComponents.length
+			} components and ${importedNotes.length} notes from JSON`
+		);
+	};
+
+	/**
+	 * Function that places numbered badges next to the linked layers of every row.
+	 * Badges which are already on the canvas are moved back next to their layer.
+	 */
+	const placeBadges = async () => {
+		const nextBadgeIds: BadgeIds = {};
+		for (const [index, { id, type, nodeIds }] of dynamicComponents.entries()) {
+			const linkedNodes = getLinkedNodes(nodeIds ?? []);
+			const previousBadgeIds = badgeIds[id] ?? [];
+			nextBadgeIds[id] = [];
+			for (const [nodeIndex, node] of linkedNodes.entries()) {
+				const previousBadgeId = previousBadgeIds[nodeIndex];
+				const badge = await drawBadge(
+					previousBadgeId ? getBadge(previousBadgeId) : null,
+					index + 1,
+					findStatusType(type)
+				);
+				placeBadgeNextTo(badge, node);
+				nextBadgeIds[id].push(badge.id);
+			}
+			// linked layers which were deleted leave their badges behind
+			previousBadgeIds
+				.slice(linkedNodes.length)
+				.forEach((badgeId) => getBadge(badgeId)?.remove());
+		}
+		Object.keys(badgeIds)
+			.filter((rowId) => !nextBadgeIds[rowId])
+			.forEach((rowId) =>
+				badgeIds[rowId].forEach((badgeId) => getBadge(badgeId)?.remove())
+			);
+		setBadgeIds(nextBadgeIds);
+	};
+
+	/**
+	 * Function that renders the thumbnails of every row again from their linked layers.
+	 * Rows whose layers were deleted keep their last thumbnail, thumbnails of rows
+	 * which are neither in the spec nor recently removed are dropped.
+	 */
+	const refreshThumbnails = async () => {
+		const rowIds = [
+			...dynamicComponents,
+			...removedComponents.map(({ component }) => component),
+		].map(({ id }) => id);
+		thumbnails
+			.keys()
+			.filter((rowId) => !rowIds.includes(rowId))
+			.forEach((rowId) => thumbnails.delete(rowId));
+		let refreshedCount = 0;
+		for (const { id, nodeIds } of dynamicComponents) {
+			const [node] = getLinkedNodes(nodeIds ?? []);
+			const thumbnail = node && (await exportThumbnail(node));
+			if (thumbnail) {
+				thumbnails.set(id, thumbnail);
+				refreshedCount++;
+			}
+		}
+		figma.notify(`Refreshed ${refreshedCount} thumbnails`);
+	};
+
+	const clearBadges = () => {
+		Object.values(badgeIds).forEach((rowBadgeIds) =>
+			rowBadgeIds.forEach((badgeId) => getBadge(badgeId)?.remove())
+		);
+		setBadgeIds({});
+	};
+
+	/**
+	 * Function that keeps placed badges in line with the rows.
+	 * Updates numbers and colours, and removes badges of removed rows.
+	 */
+	const syncBadges = async () => {
+		const nextBadgeIds: BadgeIds = {};
+		for (const [rowId, rowBadgeIds] of Object.entries(badgeIds)) {
+			const index = dynamicComponents.findIndex(({ id }) => id === rowId);
+			const badges = rowBadgeIds
+				.map(getBadge)
+				.filter((badge): badge is FrameNode => !!badge);
+			if (index === -1) {
+				badges.forEach((badge) => badge.remove());
+				continue;
+			}
+			for (const badge of badges) {
+				await drawBadge(
+					badge,
+					index + 1,
+					findStatusType(dynamicComponents[index].type)
+				);
+			}
+			nextBadgeIds[rowId] = badges.map(({ id }) => id);
+		}
+		setBadgeIds(nextBadgeIds);
+	};
+
+	/**
+	 * Function that selects the linked layers of a row and zooms to them.
+	 * Switches page when the layers were moved to another page.
+	 *
+	 * @param nodeIds - linked node IDs of the row
+	 */
+	const selectLinkedNodes = (nodeIds: string[]) => {
+		const linkedNodes = getLinkedNodes(nodeIds);
+		if (!linkedNodes.length) {
+			figma.notify(LINK_ISSUE_MESSAGES.deleted);
+			return;
+		}
+		const page = getPage(linkedNodes[0]);
+		if (page && page !== figma.currentPage) {
+			figma.currentPage = page;
+		}
+		const nodesOnPage = linkedNodes.filter(
+			(node) => getPage(node) === figma.currentPage
+		);
+		figma.currentPage.selection = nodesOnPage;
+		figma.viewport.scrollAndZoomIntoView(nodesOnPage);
+	};
+
+	/**
+	 * Function that removes a flex component from the list.
+	 *
+	 * @param index - current index of the array
+	 * @returns - returns a new state by filtering out the current index
+	 */
+	const removeFlexComponent = (index: number) => {
+		const removedComponent = dynamicComponents[index];
+		if (removedComponent) {
+			setRemovedComponents((prevRemoved) =>
+				[
+					{
+						component: removedComponent,
+						number: index + 1,
+						removedBy: getCurrentAuthor(),
+						removedAt: Date.now(),
+					},
+					...prevRemoved,
+				].slice(0, MAX_REMOVED_COMPONENTS)
+			);
+		}
+		setDynamicComponents((prevState) => [
+			...prevState.filter((_, i) => index !== i),
+		]);
+		logEdit(
+			'components',
+			`Removed component #${index + 1} ${dynamicComponents[index]?.value ?? ''}`
+		);
+	};
+
+	/**
+	 * Function that puts a removed row back at its original number, with its type and links.
+	 *
+	 * @param id - ID of the removed row
+	 */
+	const restoreFlexComponent = (id: DynamicComponentsState['id']) => {
+		const removed = removedComponents.find(
+			({ component }) => component.id === id
+		);
+		setRemovedComponents((prevRemoved) =>
+			prevRemoved.filter(({ component }) => component.id !== id)
+		);
+		// an undo may have brought the row back already
+		if (
+			!removed ||
+			dynamicComponents.some((component) => component.id === id)
+		) {
+			return;
+		}
+		setDynamicComponents((prevState) => [
+			...prevState.slice(0, removed.number - 1),
+			removed.component,
+			...prevState.slice(removed.number - 1),
+		]);
+		logEdit(
+			'components',
+			`Restored component #${removed.number} ${removed.component.value}`
+		);
+	};
+
+	const toggleComponentDetails = (id: DynamicComponentsState['id']) => {
+		setExpandedComponentIds((prevIds) =>
+			prevIds.includes(id)
+				? prevIds.filter((expandedId) => expandedId !== id)
+				: [...prevIds, id]
+		);
+	};
+
+	/**
+	 * Function that updates one field of the detail panel of a row.
+	 *
+	 * @param id - ID of the row
+	 * @param field - detail field
+	 * @param value - new value of the field
+	 */
+	const updateComponentDetails = (
+		id: DynamicComponentsState['id'],
+		field: ComponentDetailField,
+		value: string
+	) => {
+		const index = dynamicComponents.findIndex(
+			(component) => component.id === id
+		);
+		if ((dynamicComponents[index]?.details?.[field] ?? '') === value) {
+			return;
+		}
+		logEdit(
+			'components',
+			`Changed "${COMPONENT_DETAIL_LABELS[field]}" of component #${index + 1}`
+		);
+		setDynamicComponents((prevState) =>
+			prevState.map((component) =>
+				component.id === id
+					? {
+							...component,
+							details: {
+								...EMPTY_COMPONENT_DETAILS,
+								...component.details,
+								[field]: value,
+							},
+					  }
+					: component
+			)
+		);
+	};
+
+	/**
+	 * Function that appends an empty flex component of the given type.
+	 *
+	 * @param type - Flex component type
+	 */
+	const addFlexComponent = (type: ComponentTypes) => {
+		setDynamicComponents((prevState) => [
+			...prevState,
+			{ id: uid(), type, value: '' },
+		]);
+		logEdit(
+			'components',
+			`Added a component with status ${findStatusType(type).label}`
+		);
+	};
+
+	/**
+	 * Function that renames a custom component.
+	 *
+	 * @param id - ID of the component
+	 * @param value - new name of the component
+	 */
+	const renameFlexComponent = (id: string, value: string) => {
+		const index = dynamicComponents.findIndex(
+			({ id: compId }) => compId === id
+		);
+		if (index === -1 || dynamicComponents[index].value === value) {
+			return;
+		}
+		setDynamicComponents((prevComponents) =>
+			prevComponents.reduce<DynamicComponentsState[]>(
+				(finalState, component) => {
+					return [
+						...finalState,
+						component.id === id
+							? {
+									...component,
+									value,
+									matchedBy: undefined,
+							  }
+							: component,
+					];
+				},
+				[]
+			)
+		);
+		logEdit('components', `Renamed component #${index + 1} to ${value}`);
+	};
 
-				{type === 'custom' ? (
-					<Input
-						name="Input"
-						value={
-							dynamicComponents.find(({ id: compId }) => compId === id)
-								?.value || ''
-						}
-						placeholder="add a name"
-						onTextEditEnd={(e) => {
-							setDynamicComponents((prevComponents) =>
-								prevComponents.reduce<DynamicComponentsState[]>(
-									(finalState, component) => {
-										return [
-											...finalState,
-											component.id === id
-												? { ...component, value: e.characters }
-												: component,
-										];
-									},
-									[]
-								)
-							);
-						}}
-						fontSize={13}
-						fontWeight={400}
-						fill="#000"
-						width="fill-parent"
-						verticalAlignText="center"
-						inputFrameProps={{
-							padding: 4,
-						}}
-						inputBehavior="wrap"
-					/>
-				) : (
-					<Text
-						name="Select component name"
-						onClick={() => openFlexComponentIframe(id)}
-						fontSize={13}
-						fontWeight={400}
-						fill="#000"
-						width="fill-parent"
-						verticalAlignText="center"
-					>
-						{value || 'Select component name'}
-					</Text>
-				)}
+	/**
+	 * Function that moves a flex component one position up or down.
+	 *
+	 * @param index - current index of the array
+	 * @param offset - -1 to move up, 1 to move down
+	 */
+	const moveFlexComponent = (index: number, offset: -1 | 1) => {
+		if (index + offset < 0 || index + offset >= dynamicComponents.length) {
+			return;
+		}
+		logEdit(
+			'components',
+			`Moved component #${index + 1} ${offset < 0 ? 'up' : 'down'}`
+		);
+		setDynamicComponents((prevState) => {
+			const target = index + offset;
+			if (target < 0 || target >= prevState.length) {
+				return prevState;
+			}
+			const nextState = [...prevState];
+			[nextState[index], nextState[target]] = [
+				nextState[target],
+				nextState[index],
+			];
+			return nextState;
+		});
+	};
 
-				<AutoLayout
-					name="Close24Px"
-					strokeWidth={0.926}
-					overflow="visible"
-					padding={{
-						top: 4,
-						right: 6,
-						bottom: 4,
-						left: 4,
-					}}
-					onClick={() => removeFlexComponent(index)}
-				>
-					<SVG
-						name="Vector"
-						height={10}
-						width={10}
-						src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
-                <path d='M10 1.00714L8.99286 0L5 3.99286L1.00714 0L0 1.00714L3.99286 5L0 8.99286L1.00714 10L5 6.00714L8.99286 10L10 8.99286L6.00714 5L10 1.00714Z' fill='#8F9092'/>
-                </svg>
-                "
-					/>
-				</AutoLayout>
-			</AutoLayout>
+	// rows of deleted status types are sorted last
+	const getStatusTypeRank = (type: ComponentTypes) => {
+		const rank = statusTypes.findIndex(({ id }) => id === type);
+		return rank === -1 ? statusTypes.length : rank;
+	};
+
+	const sortFlexComponents = (order: SortOrder) => {
+		logEdit(
+			'components',
+			`Sorted components by ${SORT_ORDER_LABELS[order].toLowerCase()}`
 		);
-	}
+		setDynamicComponents((prevState) => {
+			if (order === 'position') {
+				return sortByCanvasPosition(prevState);
+			}
+			return prevState
+				.map((component, index) => ({ component, index }))
+				.sort(
+					(a, b) =>
+						(order === 'type'
+							? getStatusTypeRank(a.component.type) -
+							  getStatusTypeRank(b.component.type)
+							: a.component.value.localeCompare(b.component.value)) ||
+						a.index - b.index
+				)
+				.map(({ component }) => component);
+		});
+	};
 
-	return (
-		<AutoLayout
-			name="Widget"
-			effect={[
-				{
-					type: 'drop-shadow',
-					color: '#00000040',
-					offset: {
-						x: 0,
-						y: 2,
-					},
-					blur: 2,
-					showShadowBehindNode: false,
-				},
-				{
-					type: 'drop-shadow',
-					color: '#00000040',
-					offset: {
-						x: 0,
-						y: 0,
+	const openFlexComponentIframe = (id: DynamicComponentsState['id']) => {
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.gsheetData, {
+				title: 'Flex components',
+			});
+			figma.ui.postMessage({
+				gsheetData,
+				id,
+			});
+		});
+	};
+
+	const openEditLog = () => {
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.editLog, {
+				title: 'Edit history',
+				width: 360,
+				height: 420,
+			});
+			figma.ui.postMessage({
+				editLog: [...editLog].reverse().map((entry) => ({
+					...entry,
+					date: formatDate(entry.at),
+				})),
+			});
+		});
+	};
+
+	const openExport = () => {
+		const spec = toSpecExport(
+			title,
+			dynamicComponents,
+			notes,
+			findCatalogRecord,
+			statusTypes
+		);
+		const fileName = (title || 'flex-spec')
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-');
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.export, {
+				title: 'Export spec',
+				width: 420,
+				height: 460,
+			});
+			figma.ui.postMessage({
+				exports: Object.entries(SPEC_EXPORTERS).map(
+					([format, { label, extension, mimeType, serialize }]) => ({
+						format,
+						label,
+						mimeType,
+						fileName: `${fileName}.${extension}`,
+						content: serialize(spec),
+					})
+				),
+			});
+		});
+	};
+
+	/**
+	 * Function that shows code in the export UI, so it can be copied or downloaded.
+	 *
+	 * @param content - code to show
+	 * @param fileName - name of the downloaded file, without extension
+	 */
+	const openCode = (content: string, fileName: string) => {
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.export, {
+				title: 'Code',
+				width: 420,
+				height: 460,
+			});
+			figma.ui.postMessage({
+				exports: [
+					{
+						format: 'code',
+						label: 'Code',
+						mimeType: 'text/plain',
+						fileName: `${fileName
+							.toLowerCase()
+							.replace(/[^a-z0-9]+/g, '-')}.txt`,
+						content,
 					},
-					blur: 7,
-					showShadowBehindNode: false,
-				},
-			]}
-			fill="#FFF"
-			cornerRadius={16}
-			overflow="visible"
-			direction="vertical"
-			spacing={14}
-			width={360}
-			padding={{
-				vertical: 24,
-				horizontal: 18,
-			}}
-		>
-			{/* TITLE FIELD */}
+				],
+			});
+		});
+	};
+
+	const openComponentCode = (component: DynamicComponentsState) =>
+		openCode(
+			generateCodeSnippet(component, findCatalogRecord(component.value)),
+			component.value
+		);
+
+	/**
+	 * Function that generates the code of every row in spec order.
+	 * Rows without a catalog ID are listed as comments.
+	 */
+	const openScreenCode = () =>
+		openCode(
+			dynamicComponents
+				.map((component, index) =>
+					findStatusType(component.type).usesCatalog && component.value
+						? `// ${index + 1}. ${component.value}\n${generateCodeSnippet(
+								component,
+								findCatalogRecord(component.value)
+						  )}`
+						: `// ${index + 1}. custom: ${component.value || 'untitled'}`
+				)
+				.join('\n\n'),
+			title || 'flex-spec'
+		);
+
+	const openImport = () => {
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.import, {
+				title: 'Import spec',
+				width: 420,
+				height: 460,
+			});
+		});
+	};
+
+	const openSpecReport = () => {
+		const entries = collectSpecIndex().map((entry) => ({
+			...entry,
+			components: entry.components.map((component) => ({
+				...component,
+				name: component.usesCatalog
+					? findCatalogRecord(component.componentId)?.name ?? ''
+					: '',
+			})),
+		}));
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.report, {
+				title: 'Document spec report',
+				width: 420,
+				height: 520,
+			});
+			figma.ui.postMessage({
+				entries,
+				currentWidgetNodeId: widgetId,
+			});
+		});
+	};
+
+	const openSettings = () => {
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.settings, {
+				title: 'Settings',
+				width: 320,
+				height: 680,
+			});
+			figma.ui.postMessage({
+				source: catalogSource ?? getDocumentCatalogSource(),
+				scope: catalogSource ? 'widget' : 'document',
+				statusTypes,
+				statusScope: widgetStatusTypes ? 'widget' : 'document',
+				importOptions: { ...DEFAULT_IMPORT_OPTIONS, ...importOptions },
+				matchRuleTypes: Object.entries(MATCH_RULES).map(
+					([type, { label }]) => ({
+						type,
+						label,
+					})
+				),
+				providers: Object.entries(CATALOG_PROVIDERS).map(
+					([type, { label }]) => ({
+						type,
+						label,
+					})
+				),
+			});
+		});
+	};
+
+	const changeComponentType = (id: string) => {
+		const index = dynamicComponents.findIndex(
+			({ id: compId }) => compId === id
+		);
+		// cycles through the status types holding catalog IDs
+		const catalogStatusTypes = statusTypes.filter(
+			({ usesCatalog }) => usesCatalog
+		);
+		// rows left on a deleted type can still be clicked when no type holds catalog IDs
+		if (index === -1 || !catalogStatusTypes.length) {
+			return;
+		}
+		const typeIndex = catalogStatusTypes.findIndex(
+			({ id: typeId }) => typeId === dynamicComponents[index]?.type
+		);
+		const nextType =
+			catalogStatusTypes[(typeIndex + 1) % catalogStatusTypes.length];
+		logEdit(
+			'components',
+			`Changed component #${index + 1} to ${nextType.label}`
+		);
+		setDynamicComponents((prevComponents) =>
+			prevComponents.reduce<DynamicComponentsState[]>(
+				(finalState, component) => [
+					...finalState,
+					component.id === id
+						? {
+								...component,
+								type: nextType.id,
+						  }
+						: component,
+				],
+				[]
+			)
+		);
+	};
+
+	const addNote = () => {
+		setNotes((prevNotes) => [
+			...prevNotes,
+			{
+				id: uid(),
+				text: '',
+				author: getCurrentAuthor(),
+				createdAt: Date.now(),
+				resolved: false,
+			},
+		]);
+		logEdit('notes', 'Added a note');
+	};
+
+	/**
+	 * Function that edits the text of a note. Only its author can edit it,
+	 * and emptying the text removes the note.
+	 *
+	 * @param id - ID of the note
+	 * @param text - new text of the note
+	 */
+	const editNote = (id: SpecNote['id'], text: string) => {
+		const editedNote = notes.find((threadNote) => threadNote.id === id);
+		if (!editedNote || editedNote.text === text) {
+			return;
+		}
+		if (!isCurrentAuthor(editedNote.author)) {
+			figma.notify('Only the author can edit this note');
+			return;
+		}
+		setNotes((prevNotes) =>
+			text.trim()
+				? prevNotes.map((threadNote) =>
+						threadNote.id === id
+							? { ...threadNote, text, editedAt: Date.now() }
+							: threadNote
+				  )
+				: prevNotes.filter((threadNote) => threadNote.id !== id)
+		);
+		logEdit('notes', text.trim() ? 'Edited a note' : 'Deleted a note');
+	};
+
+	const removeNote = (id: SpecNote['id']) => {
+		const removedNote = notes.find((threadNote) => threadNote.id === id);
+		if (removedNote && !isCurrentAuthor(removedNote.author)) {
+			figma.notify('Only the author can delete this note');
+			return;
+		}
+		setNotes((prevNotes) =>
+			prevNotes.filter((threadNote) => threadNote.id !== id)
+		);
+		logEdit('notes', 'Deleted a note');
+	};
+
+	const toggleNoteResolved = (id: SpecNote['id']) => {
+		const isResolved = notes.find(
+			(threadNote) => threadNote.id === id
+		)?.resolved;
+		logEdit('notes', isResolved ? 'Reopened a note' : 'Resolved a note');
+		setNotes((prevNotes) =>
+			prevNotes.map((threadNote) =>
+				threadNote.id === id
+					? { ...threadNote, resolved: !threadNote.resolved }
+					: threadNote
+			)
+		);
+	};
+
+	/**
+	 * Function that opens the picker of people a row or a note can be assigned to.
+	 *
+	 * @param target - whether a component row or a note is assigned
+	 * @param id - ID of the row or the note
+	 */
+	const openAssigneePicker = (target: AssignTarget, id: string) => {
+		const previousAuthors = [
+			...notes.map(({ author }) => author),
+			...editLog.map(({ author }) => author),
+			...(specAuthorship
+				? [specAuthorship.createdBy, specAuthorship.editedBy]
+				: []),
+			...[...dynamicComponents, ...notes]
+				.map(({ assignee }) => assignee)
+				.filter((assignee): assignee is Author => Boolean(assignee)),
+		];
+		const assignables: { id: string; assignee?: Author }[] =
+			target === 'component' ? dynamicComponents : notes;
+		const current = assignables.find((item) => item.id === id)?.assignee;
+		return new Promise(() => {
+			figma.showUI(__uiFiles__.assignee, {
+				title: 'Assign to',
+				width: 280,
+				height: 360,
+			});
+			figma.ui.postMessage({
+				target,
+				id,
+				currentId: current?.id ?? null,
+				candidates: getAssigneeCandidates(previousAuthors),
+			});
+		});
+	};
+
+	/**
+	 * Function that assigns a row or a note to someone, or clears the assignee.
+	 *
+	 * @param target - whether a component row or a note is assigned
+	 * @param id - ID of the row or the note
+	 * @param assignee - new assignee, null to unassign
+	 */
+	const assignTo = (
+		target: AssignTarget,
+		id: string,
+		assignee: Author | null
+	) => {
+		const assigned = assignee
+			? `Assigned ${target === 'component' ? 'component' : 'a note'}`
+			: `Unassigned ${target === 'component' ? 'component' : 'a note'}`;
+		if (target === 'component') {
+			const index = dynamicComponents.findIndex(
+				(component) => component.id === id
+			);
+			logEdit(
+				'components',
+				`${assigned} #${index + 1}${assignee ? ` to ${assignee.name}` : ''}`
+			);
+			setDynamicComponents((prevState) =>
+				prevState.map((component) =>
+					component.id === id
+						? { ...component, assignee: assignee ?? undefined }
+						: component
+				)
+			);
+		} else {
+			logEdit('notes', `${assigned}${assignee ? ` to ${assignee.name}` : ''}`);
+			setNotes((prevNotes) =>
+				prevNotes.map((threadNote) =>
+					threadNote.id === id
+						? { ...threadNote, assignee: assignee ?? undefined }
+						: threadNote
+				)
+			);
+		}
+	};
+
+	/**
+	 * Function that renders the avatar of an author.
+	 * Falls back to the initial of the name when there is no photo.
+	 *
+	 * @param author - author to render
+	 * @param size - diameter of the avatar
+	 * @returns - avatar component
+	 */
+	function generateAvatar({ name, photoUrl }: Author, size = 22) {
+		return photoUrl ? (
 			<AutoLayout
-				name="Title"
+				name="Avatar"
+				fill={{ type: 'image', src: photoUrl }}
+				cornerRadius={100}
 				overflow="visible"
-				direction="vertical"
-				spacing={8}
-				width="fill-parent"
+				width={size}
+				height={size}
+				tooltip={name}
+			/>
+		) : (
+			<AutoLayout
+				name="Avatar"
+				fill="#DADCE0"
+				cornerRadius={100}
+				overflow="visible"
+				width={size}
+				height={size}
+				horizontalAlignItems="center"
+				verticalAlignItems="center"
+				tooltip={name}
 			>
-				{/* Auto layout for Title */}
-				<AutoLayout
-					name="level"
-					overflow="visible"
-					spacing={8}
-					width="fill-parent"
+				<Text
+					name="Initial"
+					fill="#3C4043"
+					fontFamily="Inter"
+					fontSize={Math.round(size / 2)}
+					fontWeight={600}
 				>
-					{/* Title field*/}
+					{name.charAt(0).toUpperCase() || '?'}
+				</Text>
+			</AutoLayout>
+		);
+	}
 
-					<Input
-						name="Input"
-						value={title}
-						placeholder="Screen title"
-						onTextEditEnd={(e) => {
-							setTitle(e.characters);
-						}}
-						fontSize={34}
-						fill="#000"
-						width="fill-parent"
-						verticalAlignText="center"
-						inputFrameProps={{
-							padding: 4,
-						}}
-						inputBehavior="wrap"
-					/>
-				</AutoLayout>
+	/**
+	 * Function that renders captured properties as name=value chips.
+	 * Overridden values are highlighted.
+	 *
+	 * @param properties - captured properties
+	 * @returns - chips component
+	 */
+	function generatePropertyChips(properties: CapturedProperty[]) {
+		const lines = properties.reduce<CapturedProperty[][]>(
+			(finalLines, property, index) =>
+				index % PROPERTY_CHIPS_PER_LINE
+					? [
+							...finalLines.slice(0, -1),
+							[...finalLines[finalLines.length - 1], property],
+					  ]
+					: [...finalLines, [property]],
+			[]
+		);
+		return (
+			<AutoLayout
+				name="Properties"
+				direction="vertical"
+				spacing={4}
+				width="fill-parent"
+			>
+				{lines.map((line, lineIndex) => (
+					<AutoLayout key={lineIndex} name="Properties line" spacing={4}>
+						{line.map(({ name, value, overridden }) => (
+							<AutoLayout
+								key={name}
+								name="Property chip"
+								fill={overridden ? '#E8F0FE' : '#F1F3F4'}
+								cornerRadius={10}
+								padding={{
+									vertical: 2,
+									horizontal: 6,
+								}}
+								tooltip={overridden ? 'Overridden on the instance' : undefined}
+							>
+								<Text
+									name="Property"
+									fill={overridden ? '#1A73E8' : '#3C4043'}
+									fontFamily="Inter"
+									fontSize={11}
+									letterSpacing={0.1}
+								>
+									{`${name}=${value}`}
+								</Text>
+							</AutoLayout>
+						))}
+					</AutoLayout>
+				))}
 			</AutoLayout>
+		);
+	}
 
-			{/* LINE */}
+	/**
+	 * Function that renders a row of the options list.
+	 *
+	 * @param option - icon, label and click handler of the option
+	 * @returns - option component
+	 */
+	function generateOption({
+		key,
+		name,
+		iconName,
+		icon,
+		iconSize = 16,
+		label,
+		onClick,
+	}: {
+		key?: string;
+		name: string;
+		iconName: string;
+		icon: string;
+		iconSize?: number;
+		label: string;
+		onClick: () => void | Promise<unknown>;
+	}) {
+		return (
 			<AutoLayout
-				name="line-seperator"
+				key={key}
+				name={name}
+				cornerRadius={9}
 				overflow="visible"
-				direction="vertical"
-				spacing={12}
+				spacing={9}
 				padding={{
-					vertical: 7,
-					horizontal: 0,
+					top: 6,
+					right: 0,
+					bottom: 6,
+					left: 8,
 				}}
 				width="fill-parent"
+				verticalAlignItems="center"
+				onClick={onClick}
+				hoverStyle={{
+					fill: '#F0F1F2',
+				}}
 			>
 				<AutoLayout
-					name="line"
-					fill="#DADCE0"
+					name={iconName}
+					strokeWidth={0.926}
 					overflow="visible"
-					direction="vertical"
-					spacing={9}
-					padding={4}
-					width="fill-parent"
-					height={1}
-				/>
+					spacing={4}
+					padding={3}
+				>
+					<SVG name="icon" height={iconSize} width={iconSize} src={icon} />
+				</AutoLayout>
+				<Text
+					name={label}
+					fill="#808180"
+					verticalAlignText="center"
+					lineHeight={24}
+					fontFamily="Inter"
+					fontWeight={500}
+					fontSize={13}
+					letterSpacing={0.1}
+					hoverStyle={{
+						fill: '#222',
+					}}
+				>
+					{label}
+				</Text>
 			</AutoLayout>
+		);
+	}
 
-			{/* COMPONENTS section */}
-			{dynamicComponents.length ? (
-				<AutoLayout
-					name="Components"
-					overflow="visible"
-					direction="vertical"
-					spacing={8}
+	/**
+	 * Function that renders when the catalog was last updated and whether the last refresh failed.
+	 *
+	 * @returns - catalog status texts
+	 */
+	function generateCatalogStatus() {
+		return (
+			<>
+				<Text
+					name="Catalog last updated"
+					fill="#B3B3B3"
 					width="fill-parent"
+					fontFamily="Inter"
+					fontSize={12}
+					letterSpacing={0.1}
 				>
-					{/* Autolayot which wraps Components and Reorder */}
-					<AutoLayout
-						name="Components"
-						overflow="visible"
-						direction="horizontal"
-						spacing="auto"
+					{catalogStatus.fetchedAt
+						? `Catalog last updated ${formatDate(catalogStatus.fetchedAt)} · ${
+								gsheetData?.length ?? 0
+						  } components${
+								activeCatalogSource.type === 'gsheet' &&
+								activeCatalogSource.useProxy
+									? ' · IDs only (proxy)'
+									: ''
+						  }`
+						: 'Catalog not loaded yet'}
+				</Text>
+				{catalogStatus.error ? (
+					<Text
+						name="Catalog error"
+						fill="#D93025"
 						width="fill-parent"
+						fontFamily="Inter"
+						fontSize={12}
+						letterSpacing={0.1}
 					>
-						<Text
-							name="Components"
-							fill="#808180"
-							verticalAlignText="center"
-							lineHeight={24}
-							fontFamily="Inter"
-							fontSize={13}
-							letterSpacing={0.1}
-						>
-							Components
-						</Text>
+						{gsheetData
+							? 'Last refresh failed, using the cached copy'
+							: 'Catalog could not be fetched'}
+					</Text>
+				) : null}
+			</>
+		);
+	}
 
-						<Text
-							name="Reorder"
-							fill="#808180"
-							verticalAlignText="center"
-							lineHeight={24}
-							fontFamily="Inter"
-							fontSize={13}
-							letterSpacing={0.1}
-							horizontalAlignText="right"
-						>
-							Reorder
-						</Text>
-					</AutoLayout>
+	/**
+	 * Function that renders the preview of the layer a row is linked to.
+	 *
+	 * @param thumbnail - PNG data URI
+	 * @param size - side of the preview
+	 * @returns - thumbnail component
+	 */
+	function generateThumbnail(thumbnail: string, size = 40) {
+		return (
+			<AutoLayout
+				name="Thumbnail"
+				fill={{ type: 'image', src: thumbnail, scaleMode: 'fit' }}
+				stroke="#DBDBE0"
+				cornerRadius={4}
+				width={size}
+				height={size}
+			/>
+		);
+	}
 
-					{/* Auto layout for INPUT + ELLIPSE */}
-					<AutoLayout
-						name="Input field"
-						overflow="visible"
-						spacing={8}
-						width="fill-parent"
-						direction="vertical"
-					>
-						{/* Input field with number [high confidence, unclear, custom] */}
-						{dynamicComponents.map(generateDynamicComponents)}
-					</AutoLayout>
-				</AutoLayout>
-			) : null}
+	/**
+	 * Function that renders the assignee of a row or a note, which opens the picker.
+	 *
+	 * @param target - whether a component row or a note is assigned
+	 * @param id - ID of the row or the note
+	 * @param assignee - current assignee, if any
+	 * @returns - assignee component
+	 */
+	function generateAssignee(
+		target: AssignTarget,
+		id: string,
+		assignee?: Author
+	) {
+		return (
+			<AutoLayout
+				name="Assignee"
+				overflow="visible"
+				padding={2}
+				onClick={() => openAssigneePicker(target, id)}
+				tooltip={assignee ? `Assigned to ${assignee.name}` : 'Assign'}
+			>
+				{assignee ? (
+					generateAvatar(assignee, 18)
+				) : (
+					<SVG
+						name="person_add_24px"
+						height={16}
+						width={16}
+						src="<svg width='16' height='16' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M15 12C17.21 12 19 10.21 19 8C19 5.79 17.21 4 15 4C12.79 4 11 5.79 11 8C11 10.21 12.79 12 15 12ZM6 10V7H4V10H1V12H4V15H6V12H9V10H6ZM15 14C12.33 14 7 15.34 7 18V20H23V18C23 15.34 17.67 14 15 14Z' fill='#B3B3B3'/>
+</svg>
+"
+					/>
+				)}
+			</AutoLayout>
+		);
+	}
+
+	/**
+	 * Function that renders the toggle which only keeps items assigned to the person who turned it on.
+	 *
+	 * @returns - filter component
+	 */
+	function generateAssignedToMeFilter() {
+		return (
+			<Text
+				name="Assigned to me"
+				fill={assignedFilterUser ? '#1A73E8' : '#808180'}
+				verticalAlignText="center"
+				lineHeight={24}
+				fontFamily="Inter"
+				fontSize={13}
+				letterSpacing={0.1}
+				tooltip={assignedFilterUser ? 'Show all' : undefined}
+				onClick={() =>
+					setAssignedFilterUser(assignedFilterUser ? null : getCurrentAuthor())
+				}
+				hoverStyle={{
+					fill: '#222',
+				}}
+			>
+				{assignedFilterUser
+					? `Assigned to ${assignedFilterUser.name}`
+					: 'Assigned to me'}
+			</Text>
+		);
+	}
 
-			{/* Options */}
+	/**
+	 * Function that renders a note of the thread.
+	 *
+	 * @param note - note to render
+	 * @returns - note component
+	 */
+	function generateNote({
+		id,
+		text,
+		author,
+		createdAt,
+		editedAt,
+		resolved,
+		assignee,
+	}: SpecNote) {
+		return (
 			<AutoLayout
-				name="Options"
+				key={id}
+				name="Note"
+				stroke="#DBDBE0"
+				cornerRadius={8}
 				overflow="visible"
 				direction="vertical"
-				spacing={2}
+				spacing={4}
+				padding={8}
 				width="fill-parent"
-				padding={{
-					top: 6,
-					right: 0,
-					bottom: 0,
-					left: 0,
-				}}
+				opacity={resolved ? 0.5 : 1}
 			>
-				{/* Add Flex component: OPTION */}
 				<AutoLayout
-					name="Add high confidence flex component"
-					cornerRadius={9}
+					name="User"
 					overflow="visible"
-					spacing={9}
+					width="fill-parent"
+					spacing={8}
 					padding={{
-						top: 6,
+						top: 0,
 						right: 0,
-						bottom: 6,
-						left: 8,
+						bottom: 0,
+						left: 2,
 					}}
-					width="fill-parent"
 					verticalAlignItems="center"
-					onClick={() =>
-						setDynamicComponents((prevState) => [
-							...prevState,
-							{ id: uid(), type: 'highConfidence', value: '' },
-						])
-					}
-					hoverStyle={{
-						fill: '#F0F1F2',
-					}}
 				>
-					<AutoLayout
-						name="add_24px"
-						strokeWidth={0.926}
-						overflow="visible"
-						spacing={4}
-						padding={3}
-					>
-						<SVG
-							name="icon"
-							height={13}
-							width={13}
-							src="<svg width='12' height='12' viewBox='0 0 12 12' fill='' xmlns='http://www.w3.org/2000/svg'>
-              <path d='M12 6.75H6.75V12H5.25V6.75H0V5.25H5.25V0H6.75V5.25H12V6.75Z' fill='#8F9092'/>
-              </svg>
-              "
-						/>
-					</AutoLayout>
+					{generateAvatar(author)}
 					<Text
-						name="Add flex component"
-						fill="#808180"
+						name="User and Date"
+						width="fill-parent"
+						fill="#333"
 						verticalAlignText="center"
-						lineHeight={24}
+						lineHeight={22}
 						fontFamily="Inter"
-						fontWeight={500}
 						fontSize={13}
 						letterSpacing={0.1}
-						hoverStyle={{
-							fill: '#222',
-						}}
 					>
-						Add high confidence flex component
+						{`${author.name} - ${formatDate(editedAt ?? createdAt)}${
+							editedAt ? ' (edited)' : ''
+						}`}
 					</Text>
-				</AutoLayout>
 
-				{/* Add custom component : OPTION */}
-				<AutoLayout
-					name="Add flex component with unclear usage"
-					cornerRadius={9}
-					overflow="visible"
-					spacing={9}
-					padding={{
-						top: 6,
-						right: 0,
-						bottom: 6,
-						left: 8,
-					}}
-					width="fill-parent"
-					verticalAlignItems="center"
-					onClick={() =>
-						setDynamicComponents((prevState) => [
-							...prevState,
-							{ id: uid(), type: 'unclear', value: '' },
-						])
-					}
-					hoverStyle={{
-						fill: '#F0F1F2',
-					}}
-				>
+					{generateAssignee('note', id, assignee)}
+
 					<AutoLayout
-						name="add_24px"
-						strokeWidth={0.926}
+						name="Resolve"
 						overflow="visible"
-						spacing={4}
-						padding={3}
+						padding={4}
+						onClick={() => toggleNoteResolved(id)}
+						tooltip={resolved ? 'Reopen' : 'Resolve'}
 					>
 						<SVG
-							name="icon"
-							height={13}
-							width={13}
-							src="<svg width='12' height='12' viewBox='0 0 12 12' fill='none' xmlns='http://www.w3.org/2000/svg'>
-<path d='M12 6.75H6.75V12H5.25V6.75H0V5.25H5.25V0H6.75V5.25H12V6.75Z' fill='#8F9092'/>
-</svg>
-"
+							name="Vector"
+							height={10}
+							width={12}
+							src={`<svg width='12' height='10' viewBox='0 0 12 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M4 7.6L1.2 4.8L0 6L4 10L12 2L10.8 0.8L4 7.6Z' fill='${
+								resolved ? '#1E8E3E' : '#8F9092'
+							}'/>
+</svg>`}
 						/>
 					</AutoLayout>
-					<Text
-						name="Add flex component with unclear usage"
-						fill="#808180"
-						verticalAlignText="center"
-						lineHeight={24}
-						fontFamily="Inter"
-						fontSize={13}
-						fontWeight={500}
-						letterSpacing={0.1}
-						hoverStyle={{
-							fill: '#222',
-						}}
-					>
-						Add flex component with unclear usage
-					</Text>
-				</AutoLayout>
 
-				{/* Add custom component : OPTION */}
-				<AutoLayout
-					name="Add custom component"
-					cornerRadius={9}
-					overflow="visible"
-					spacing={9}
-					padding={{
-						top: 6,
-						right: 0,
-						bottom: 6,
-						left: 8,
-					}}
-					width="fill-parent"
-					verticalAlignItems="center"
-					onClick={() =>
-						setDynamicComponents((prevState) => [
-							...prevState,
-							{ id: uid(), type: 'custom', value: '' },
-						])
-					}
-					hoverStyle={{
-						fill: '#F0F1F2',
-					}}
-				>
 					<AutoLayout
-						name="add_24px"
+						name="Close24Px"
 						strokeWidth={0.926}
 						overflow="visible"
-						spacing={4}
-						padding={3}
+						padding={{
+							top: 4,
+							right: 6,
+							bottom: 4,
+							left: 4,
+						}}
+						onClick={() => removeNote(id)}
 					>
 						<SVG
-							name="icon"
-							height={13}
-							width={13}
-							src="<svg width='12' height='12' viewBox='0 0 12 12' fill='none' xmlns='http://www.w3.org/2000/svg'>
-<path d='M12 6.75H6.75V12H5.25V6.75H0V5.25H5.25V0H6.75V5.25H12V6.75Z' fill='#8F9092'/>
-</svg>
-"
+							name="Vector"
+							height={10}
+							width={10}
+							src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
+                <path d='M10 1.00714L8.99286 0L5 3.99286L1.00714 0L0 1.00714L3.99286 5L0 8.99286L1.00714 10L5 6.00714L8.99286 10L10 8.99286L6.00714 5L10 1.00714Z' fill='#8F9092'/>
+                </svg>
+                "
 						/>
 					</AutoLayout>
-					<Text
-						name="Add custom component"
-						fill="#808180"
-						verticalAlignText="center"
-						lineHeight={24}
-						fontFamily="Inter"
+				</AutoLayout>
+				<AutoLayout name="Text" width="fill-parent">
+					<Input
+						name="Input"
+						value={text}
+						placeholder="Add notes for Eng"
+						onTextEditEnd={(e) => {
+							editNote(id, e.characters);
+						}}
 						fontSize={13}
-						fontWeight={500}
-						letterSpacing={0.1}
-						hoverStyle={{
-							fill: '#222',
+						lineHeight={22}
+						fontWeight={400}
+						fill="#000"
+						width="fill-parent"
+						verticalAlignText="center"
+						inputFrameProps={{
+							padding: 4,
 						}}
-					>
-						Add custom component
-					</Text>
+						inputBehavior="wrap"
+					/>
 				</AutoLayout>
+			</AutoLayout>
+		);
+	}
+
+	const finalizeSpec = () => {
+		if (!dynamicComponents.length) {
+			figma.notify('Add at least one component before creating the spec');
+			return;
+		}
+		setIsReordering(false);
+		setIsFinalized(true);
+		logEdit('spec', 'Finalized the spec');
+	};
+
+	const reopenSpec = () => {
+		setIsFinalized(false);
+		logEdit('spec', 'Reopened the spec');
+	};
 
-				{/* Import from selection : OPTION */}
+	/**
+	 * Function that renders undo and redo, and the rows which can be restored.
+	 *
+	 * @returns - React component, or null when there is no history
+	 */
+	function generateHistory() {
+		const restorableComponents = removedComponents.filter(
+			({ component }) =>
+				!dynamicComponents.some(({ id }) => id === component.id)
+		);
+		const lastChange = history.past[history.past.length - 1];
+		const [nextChange] = history.future;
+		if (!lastChange && !nextChange && !restorableComponents.length) {
+			return null;
+		}
+		return (
+			<AutoLayout
+				name="History"
+				overflow="visible"
+				direction="vertical"
+				spacing={6}
+				width="fill-parent"
+			>
 				<AutoLayout
-					name="Import from selection"
-					cornerRadius={9}
+					name="History controls"
 					overflow="visible"
-					spacing={9}
-					padding={{
-						top: 6,
-						right: 0,
-						bottom: 6,
-						left: 8,
-					}}
+					spacing={12}
 					width="fill-parent"
-					verticalAlignItems="center"
-					onClick={importFromSelection}
-					hoverStyle={{
-						fill: '#F0F1F2',
-					}}
 				>
-					<AutoLayout
-						name="select_all_24px"
-						strokeWidth={0.926}
-						overflow="visible"
-						spacing={4}
-						padding={2}
+					<Text
+						name="Undo"
+						fill={lastChange ? '#808180' : '#DADCE0'}
+						fontFamily="Inter"
+						fontSize={12}
+						fontWeight={500}
+						letterSpacing={0.1}
+						onClick={lastChange ? undo : undefined}
+						tooltip={lastChange ? `Undo "${lastChange.summary}"` : undefined}
+						hoverStyle={lastChange ? { fill: '#222' } : undefined}
 					>
-						<SVG
-							name="icon"
-							height={16}
-							width={16}
-							src="<svg width='14' height='14' viewBox='0 0 14 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
-<path fill-rule='evenodd' clip-rule='evenodd' d='M1.5 1.75H0C0 0.925 0.675 0.25 1.5 0.25V1.75ZM1.5 7.75H0V6.25H1.5V7.75ZM3 13.75H4.5V12.25H3V13.75ZM1.5 4.75H0V3.25H1.5V4.75ZM7.5 0.25H6V1.75H7.5V0.25ZM12 1.75V0.25C12.825 0.25 13.5 0.925 13.5 1.75H12ZM1.5 13.75V12.25H0C0 13.075 0.675 13.75 1.5 13.75ZM1.5 10.75H0V9.25H1.5V10.75ZM4.5 0.25H3V1.75H4.5V0.25ZM7.5 13.75H6V12.25H7.5V13.75ZM12 7.75H13.5V6.25H12V7.75ZM13.5 12.25C13.5 13.075 12.825 13.75 12 13.75V12.25H13.5ZM12 4.75H13.5V3.25H12V4.75ZM13.5 10.75H12V9.25H13.5V10.75ZM9 13.75H10.5V12.25H9V13.75ZM10.5 1.75H9V0.25H10.5V1.75ZM3 10.75H10.5V3.25H3V10.75ZM9 4.75H4.5V9.25H9V4.75Z' fill='#8F9092'/>
-</svg>
-"
-						/>
-					</AutoLayout>
+						Undo
+					</Text>
 					<Text
-						name="Import components from selection"
-						fill="#808180"
-						verticalAlignText="center"
-						lineHeight={24}
+						name="Redo"
+						fill={nextChange ? '#808180' : '#DADCE0'}
 						fontFamily="Inter"
+						fontSize={12}
 						fontWeight={500}
-						fontSize={13}
 						letterSpacing={0.1}
-						hoverStyle={{
-							fill: '#222',
-						}}
+						onClick={nextChange ? redo : undefined}
+						tooltip={nextChange ? `Redo "${nextChange.summary}"` : undefined}
+						hoverStyle={nextChange ? { fill: '#222' } : undefined}
 					>
-						Import component IDs from selection
+						Redo
 					</Text>
+					{restorableComponents.length ? (
+						<Text
+							name="Recently removed"
+							fill={isShowingRemoved ? '#1A73E8' : '#808180'}
+							fontFamily="Inter"
+							fontSize={12}
+							fontWeight={500}
+							letterSpacing={0.1}
+							onClick={() => setIsShowingRemoved(!isShowingRemoved)}
+							hoverStyle={{
+								fill: '#222',
+							}}
+						>
+							{`Recently removed (${restorableComponents.length})`}
+						</Text>
+					) : null}
 				</AutoLayout>
 
-				{/* Add note : OPTION */}
+				{isShowingRemoved
+					? restorableComponents.map(
+							({ component, number, removedBy, removedAt }) => {
+								const statusType = findStatusType(component.type);
+								return (
+									<AutoLayout
+										key={component.id}
+										name="Removed component"
+										overflow="visible"
+										spacing={8}
+										width="fill-parent"
+										verticalAlignItems="center"
+									>
+										<AutoLayout
+											name="Ellipse"
+											fill={
+												statusType.usesCatalog ? statusType.colour : undefined
+											}
+											stroke={statusType.usesCatalog ? undefined : '#00000075'}
+											opacity={0.6}
+											cornerRadius={100}
+											width={18}
+											height={18}
+											horizontalAlignItems="center"
+											verticalAlignItems="center"
+										>
+											<Text
+												name="number"
+												fill={
+													statusType.usesCatalog ? '#FFF' : statusType.colour
+												}
+												fontFamily="Inter"
+												fontSize={10}
+												fontWeight={600}
+											>
+												{number}
+											</Text>
+										</AutoLayout>
+										<AutoLayout
+											name="Removed details"
+											direction="vertical"
+											width="fill-parent"
+										>
+											<Text
+												name="Removed value"
+												fill="#3C4043"
+												fontFamily="Inter"
+												fontSize={12}
+												width="fill-parent"
+											>
+												{component.value || statusType.label}
+											</Text>
+											<Text
+												name="Removed by"
+												fill="#B3B3B3"
+												fontFamily="Inter"
+												fontSize={11}
+												width="fill-parent"
+											>
+												{`Removed by ${removedBy.name} - ${formatDate(
+													removedAt
+												)}`}
+											</Text>
+										</AutoLayout>
+										<Text
+											name="Restore"
+											fill="#1A73E8"
+											fontFamily="Inter"
+											fontSize={12}
+											fontWeight={500}
+											onClick={() => restoreFlexComponent(component.id)}
+										>
+											Restore
+										</Text>
+									</AutoLayout>
+								);
+							}
+					  )
+					: null}
+			</AutoLayout>
+		);
+	}
+
+	/**
+	 * Function that renders the read-only spec from the component rows and notes.
+	 *
+	 * @returns - components and notes submitted groups
+	 */
+	function generateSubmittedSpec() {
+		const submittedNotes = notes.filter(({ text }) => text.trim());
+		return (
+			<>
+				{/* COMPONENTS SUBMITTED GROUP*/}
 				<AutoLayout
-					name="Add note"
-					cornerRadius={9}
+					name="Components"
 					overflow="visible"
-					spacing={9}
-					padding={{
-						top: 6,
-						right: 0,
-						bottom: 6,
-						left: 8,
-					}}
-					width="fill-parent"
-					verticalAlignItems="center"
-					onClick={() => void 0}
-					hoverStyle={{
-						fill: '#F0F1F2',
-					}}
+					direction="vertical"
+					spacing={16}
+					width={324}
 				>
-					<AutoLayout
-						name="add_24px"
-						strokeWidth={0.926}
-						overflow="visible"
-						spacing={4}
-						padding={3}
-					>
-						<SVG
-							name="icon"
-							height={16}
-							width={16}
-							src="<svg width='14' height='12' viewBox='0 0 14 12' fill='none' xmlns='http://www.w3.org/2000/svg'>
-              <path d='M0.25 3.5H8.5V5H0.25V3.5ZM0.25 2H8.5V0.5H0.25V2ZM0.25 8H5.5V6.5H0.25V8ZM11.5075 5.6525L12.04 5.12C12.3325 4.8275 12.805 4.8275 13.0975 5.12L13.63 5.6525C13.9225 5.945 13.9225 6.4175 13.63 6.71L13.0975 7.2425L11.5075 5.6525ZM10.975 6.185L7 10.16V11.75H8.59L12.565 7.775L10.975 6.185Z' fill='#8F9092'/>
-              </svg>
-              "
-						/>
-					</AutoLayout>
 					<Text
-						name="Add custom component"
+						name="Components"
 						fill="#808180"
 						verticalAlignText="center"
 						lineHeight={24}
 						fontFamily="Inter"
 						fontSize={13}
-						fontWeight={500}
 						letterSpacing={0.1}
-						hoverStyle={{
-							fill: '#222',
-						}}
 					>
-						Add note
+						Components
 					</Text>
+
+					{dynamicComponents.map(
+						(
+							{ id, type, value, nodeIds, assignee, details, properties },
+							index
+						) => {
+							if (!matchesStatusFilter(type)) {
+								return null;
+							}
+							const statusType = findStatusType(type);
+							const thumbnail = thumbnails.get(id);
+							return (
+								<AutoLayout
+									key={id}
+									name="Component"
+									cornerRadius={8}
+									overflow="visible"
+									spacing={12}
+									width="fill-parent"
+									verticalAlignItems="center"
+									onClick={
+										nodeIds?.length
+											? () => selectLinkedNodes(nodeIds)
+											: undefined
+									}
+								>
+									<AutoLayout
+										name="Ellipse"
+										fill={
+											statusType.usesCatalog ? statusType.colour : undefined
+										}
+										stroke={statusType.usesCatalog ? undefined : '#00000075'}
+										cornerRadius={100}
+										overflow="visible"
+										width={28}
+										height={28}
+										horizontalAlignItems="center"
+										verticalAlignItems="center"
+									>
+										<Text
+											name="number"
+											fill={statusType.usesCatalog ? '#FFF' : statusType.colour}
+											verticalAlignText="center"
+											horizontalAlignText="center"
+											fontFamily="Inter"
+											fontSize={12}
+											letterSpacing={0.1}
+											fontWeight={600}
+										>
+											{index + 1}
+										</Text>
+									</AutoLayout>
+									{thumbnail ? generateThumbnail(thumbnail, 48) : null}
+									<AutoLayout
+										name="Frame"
+										direction="vertical"
+										padding={4}
+										width="fill-parent"
+									>
+										<Text
+											name="Input"
+											fill="#3C4043"
+											width="fill-parent"
+											verticalAlignText="center"
+											lineHeight={24}
+											fontFamily="Inter"
+											fontSize={15}
+											letterSpacing={0.1}
+										>
+											{value || 'No component name'}
+										</Text>
+										{findCatalogRecord(value)?.name ? (
+											<Text
+												name="Catalog name"
+												fill="#808180"
+												width="fill-parent"
+												fontFamily="Inter"
+												fontSize={12}
+												letterSpacing={0.1}
+											>
+												{findCatalogRecord(value)?.name}
+											</Text>
+										) : null}
+										{properties?.length
+											? generatePropertyChips(properties)
+											: null}
+										{getFilledDetails(details).map(
+											({ field, value: detail }) => (
+												<Text
+													key={field}
+													name={`Detail ${field}`}
+													fill={field === 'docsUrl' ? '#1A73E8' : '#808180'}
+													width="fill-parent"
+													fontFamily="Inter"
+													fontSize={12}
+													letterSpacing={0.1}
+													href={field === 'docsUrl' ? detail : undefined}
+												>
+													{`${
+														field === 'reason'
+															? `Why ${statusType.label}`
+															: COMPONENT_DETAIL_LABELS[field]
+													}: ${detail}`}
+												</Text>
+											)
+										)}
+									</AutoLayout>
+									{assignee ? generateAvatar(assignee, 18) : null}
+								</AutoLayout>
+							);
+						}
+					)}
 				</AutoLayout>
-			</AutoLayout>
 
-			{/* LINE  */}
-			<AutoLayout
-				name="line-seperator"
-				overflow="visible"
-				direction="vertical"
-				spacing={12}
-				padding={{
-					vertical: 7,
-					horizontal: 0,
-				}}
-				width="fill-parent"
-			>
+				{/* LINE  */}
 				<AutoLayout
-					name="line"
-					fill="#DADCE0"
+					name="line-seperator"
 					overflow="visible"
 					direction="vertical"
-					spacing={9}
-					padding={4}
+					spacing={12}
+					padding={{
+						vertical: 7,
+						horizontal: 0,
+					}}
 					width="fill-parent"
-					height={1}
-				/>
-			</AutoLayout>
-
-			{/* NOTES */}
-			<AutoLayout
-				name="Notes"
-				overflow="visible"
-				direction="vertical"
-				spacing={8}
-				width="fill-parent"
-			>
-				<Text
-					name="Note"
-					fill="#808180"
-					verticalAlignText="center"
-					lineHeight={24}
-					fontFamily="Inter"
-					fontSize={13}
-					letterSpacing={0.1}
-				>
-					Notes
-				</Text>
-
-				<AutoLayout
-					name="Note Field"
-					overflow="visible"
-					spacing={8}
-					width={324}
 				>
 					<AutoLayout
-						name="Note"
-						stroke="#DBDBE0"
-						cornerRadius={8}
+						name="line"
+						fill="#DADCE0"
 						overflow="visible"
 						direction="vertical"
-						spacing={4}
-						padding={8}
+						spacing={9}
+						padding={4}
 						width="fill-parent"
-						verticalAlignItems="center"
-					>
+						height={1}
+					/>
+				</AutoLayout>
+
+				{submittedNotes.length ? (
+					<>
+						{/* NOTES SUBMITTED GROUP*/}
+						{submittedNotes.map(
+							({ id, text, author, createdAt, editedAt, resolved }) => (
+								<AutoLayout
+									key={id}
+									name="Comment"
+									overflow="visible"
+									direction="vertical"
+									padding={{
+										vertical: 0,
+										horizontal: 4,
+									}}
+									spacing={8}
+									width="fill-parent"
+									opacity={resolved ? 0.5 : 1}
+								>
+									<AutoLayout
+										name="Comment User"
+										overflow="visible"
+										spacing={8}
+										width="fill-parent"
+									>
+										{generateAvatar(author)}
+										<Text
+											name="Timestamp"
+											fill="#B3B3B3"
+											width="fill-parent"
+											verticalAlignText="center"
+											lineHeight={22}
+											fontFamily="Inter"
+											fontSize={13}
+											letterSpacing={0.1}
+										>
+											{`${author.name} - ${formatDate(editedAt ?? createdAt)}${
+												resolved ? ' - resolved' : ''
+											}`}
+										</Text>
+									</AutoLayout>
+									<Text
+										name="Comment"
+										fill="#333"
+										width="fill-parent"
+										verticalAlignText="center"
+										lineHeight={22}
+										fontFamily="Inter"
+										fontSize={13}
+										letterSpacing={0.1}
+									>
+										{text}
+									</Text>
+								</AutoLayout>
+							)
+						)}
+
+						{/* LINE  */}
 						<AutoLayout
-							name="User"
+							name="line-seperator"
 							overflow="visible"
-							width="fill-parent"
-							spacing={8}
+							direction="vertical"
+							spacing={12}
 							padding={{
-								top: 0,
-								right: 0,
-								bottom: 0,
-								left: 2,
+								vertical: 7,
+								horizontal: 0,
 							}}
-							verticalAlignItems="center"
+							width="fill-parent"
 						>
 							<AutoLayout
-								name="field_number"
-								fill={{
-									type: 'image',
-									src: 'https://lh3.googleusercontent.com/a-/AFdZucr35CB_ZnJbPOTeugL_8PjHc6L1l5IIXRLScF65=s600-p',
-									imageRef: 'cff3e72f0ffd376c3984dad92b6c5f8ff0793de4',
-									imageTransform: [
-										[0.996610164642334, 0, 0.0016949152341112494],
-										[0, 1, 0],
-									],
-									scalingFactor: 0.5,
-								}}
-								cornerRadius={100}
-								overflow="visible"
-								width={22}
-								height={22}
-								horizontalAlignItems="center"
-								verticalAlignItems="center"
-							/>
-							<Text
-								name="User and Date"
-								width="fill-parent"
-								fill="#333"
-								verticalAlignText="center"
-								lineHeight={22}
-								fontFamily="Inter"
-								fontSize={13}
-								letterSpacing={0.1}
-							>
-								Andrew Carter
-							</Text>
-
-							<AutoLayout
-								name="Close24Px"
-								strokeWidth={0.926}
+								name="line"
+								fill="#DADCE0"
 								overflow="visible"
-								padding={{
-									top: 4,
-									right: 6,
-									bottom: 4,
-									left: 4,
-								}}
-							>
-								<SVG
-									name="Vector"
-									height={10}
-									width={10}
-									src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
-                <path d='M10 1.00714L8.99286 0L5 3.99286L1.00714 0L0 1.00714L3.99286 5L0 8.99286L1.00714 10L5 6.00714L8.99286 10L10 8.99286L6.00714 5L10 1.00714Z' fill='#8F9092'/>
-                </svg>
-                "
-								/>
-							</AutoLayout>
-						</AutoLayout>
-						<AutoLayout name="Text" width="fill-parent">
-							<Input
-								name="Input"
-								value={note}
-								placeholder="Add notes for Eng"
-								onTextEditEnd={(e) => {
-									setNote(e.characters);
-								}}
-								fontSize={13}
-								lineHeight={22}
-								fontWeight={400}
-								fill="#000"
+								direction="vertical"
+								spacing={9}
+								padding={4}
 								width="fill-parent"
-								verticalAlignText="center"
-								inputFrameProps={{
-									//stroke: "#DBDBE0",
-									//cornerRadius: 8,
-									padding: 4,
-								}}
-								inputBehavior="wrap"
+								height={1}
 							/>
 						</AutoLayout>
-					</AutoLayout>
-				</AutoLayout>
-			</AutoLayout>
+					</>
+				) : null}
+			</>
+		);
+	}
 
-			{/* LINE  */}
+	/**
+	 * Function that creates the list of flex components dynamically.
+	 * Runs on every click of the plus buttons
+	 *
+	 * @param type - Flex component type
+	 * @param index - current index of the array
+	 * @returns Array - Array of React components
+	 */
+	function generateDynamicComponents(
+		{
+			id,
+			type,
+			value,
+			matchedBy,
+			nodeIds,
+			assignee,
+			details,
+			properties,
+		}: DynamicComponentsState,
+		index: number
+	) {
+		const thumbnail = thumbnails.get(id);
+		const statusType = findStatusType(type);
+		const catalogIssue = validateComponent(
+			{ id, type, value },
+			statusType,
+			gsheetData ?? []
+		);
+		const catalogRecord = value ? findCatalogRecord(value) : undefined;
+		const isExpanded = expandedComponentIds.includes(id);
+		const filledDetailsCount = getFilledDetails(details).length;
+		// the reason is kept visible when it was filled in before the status changed
+		const detailFields = COMPONENT_DETAIL_FIELDS.filter(
+			(field) => field !== 'reason' || statusType.needsReason || details?.reason
+		);
+		const catalogSummary = catalogRecord
+			? [catalogRecord.name, catalogRecord.status, catalogRecord.owner]
+					.filter(Boolean)
+					.join(' · ')
+			: '';
+		return (
 			<AutoLayout
-				name="line-seperator"
+				key={id}
+				name={`component-${type}-${id}`}
+				stroke="#DBDBE0"
+				cornerRadius={8}
 				overflow="visible"
-				direction="vertical"
-				spacing={12}
+				spacing={8}
 				padding={{
-					vertical: 7,
-					horizontal: 0,
+					vertical: 8,
+					horizontal: 8,
 				}}
 				width="fill-parent"
-			>
-				<AutoLayout
-					name="line"
-					fill="#DADCE0"
-					overflow="visible"
-					direction="vertical"
-					spacing={9}
-					padding={4}
-					width="fill-parent"
-					height={1}
-				/>
-			</AutoLayout>
-
-			{/* COMPONENTS SUBMITTED GROUP*/}
-			<AutoLayout
-				name="Components"
-				overflow="visible"
-				direction="vertical"
-				spacing={16}
-				width={324}
-			>
-				<Text
-					name="Components"
-					fill="#808180"
-					verticalAlignText="center"
-					lineHeight={24}
-					fontFamily="Inter"
-					fontSize={13}
-					letterSpacing={0.1}
-				>
-					Components
-				</Text>
-
-				{/* COMPONENT */}
-				<AutoLayout
-					name="Component"
-					cornerRadius={8}
-					overflow="visible"
-					spacing={12}
-					width="fill-parent"
-					verticalAlignItems="center"
-				>
-					<AutoLayout
-						name="Ellipse"
-						fill="#1A73E8"
-						cornerRadius={100}
-						overflow="visible"
-						width={28}
-						height={28}
-						horizontalAlignItems="center"
-						verticalAlignItems="center"
-					>
-						<Text
-							name="number"
-							fill="#FFF"
-							verticalAlignText="center"
-							horizontalAlignText="center"
-							fontFamily="Inter"
-							fontSize={12}
-							letterSpacing={0.1}
-							fontWeight={600}
-						>
-							1
-						</Text>
-					</AutoLayout>
-					<AutoLayout name="Frame" padding={4} width="fill-parent">
-						<Text
-							name="Input"
-							opacity={0.3}
-							x={4}
-							y={4}
-							positioning="absolute"
-							hidden={true}
-							fill="#000"
-							width="fill-parent"
-							verticalAlignText="center"
-							fontFamily="Inter"
-							fontSize={13}
-						>
-							flex.comp.component
-						</Text>
-						<Text
-							name="Input"
-							fill="#3C4043"
-							width="fill-parent"
-							verticalAlignText="center"
-							lineHeight={24}
-							fontFamily="Inter"
-							fontSize={15}
-							letterSpacing={0.1}
-						>
-							flex.comp.list-item-text-only
-						</Text>
-					</AutoLayout>
-				</AutoLayout>
-
-				{/* COMPONENT */}
+				verticalAlignItems="center"
+				onClick={nodeIds?.length ? () => selectLinkedNodes(nodeIds) : undefined}
+				tooltip={nodeIds?.length ? 'Select linked layers' : undefined}
+			>
 				<AutoLayout
-					name="Component"
-					cornerRadius={8}
+					name="Ellipse"
+					fill={statusType.usesCatalog ? statusType.colour : undefined}
+					stroke={statusType.usesCatalog ? undefined : '#00000075'}
+					cornerRadius={100}
 					overflow="visible"
-					spacing={12}
-					width="fill-parent"
+					width={22}
+					height={22}
+					horizontalAlignItems="center"
 					verticalAlignItems="center"
+					onClick={
+						statusType.usesCatalog ? () => changeComponentType(id) : undefined
+					}
+					tooltip={statusType.description || statusType.label}
 				>
-					<AutoLayout
-						name="Ellipse"
-						fill="#C28AF5"
-						cornerRadius={100}
-						overflow="visible"
-						width={28}
-						height={28}
-						horizontalAlignItems="center"
-						verticalAlignItems="center"
+					<Text
+						name="number"
+						fill={statusType.usesCatalog ? '#FFF' : statusType.colour}
+						fontWeight={600}
+						width={6}
+						verticalAlignText="center"
+						horizontalAlignText="center"
+						fontFamily="Inter"
+						fontSize={12}
+						letterSpacing={0.1}
 					>
-						<Text
-							name="number"
-							fill="#FFF"
-							verticalAlignText="center"
-							horizontalAlignText="center"
-							fontFamily="Inter"
-							fontSize={12}
-							letterSpacing={0.1}
-							fontWeight={600}
-						>
-							1
-						</Text>
-					</AutoLayout>
-					<AutoLayout name="Frame" padding={4} width="fill-parent">
-						<Text
+						{index + 1}
+					</Text>
+				</AutoLayout>
+
+				{thumbnail ? generateThumbnail(thumbnail) : null}
+
+				<AutoLayout
+					name="Row content"
+					direction="vertical"
+					spacing={2}
+					width="fill-parent"
+				>
+					{!statusType.usesCatalog ? (
+						<Input
 							name="Input"
-							opacity={0.3}
-							x={4}
-							y={4}
-							positioning="absolute"
-							hidden={true}
+							value={
+								dynamicComponents.find(({ id: compId }) => compId === id)
+									?.value || ''
+							}
+							placeholder="add a name"
+							onTextEditEnd={(e) => {
+								renameFlexComponent(id, e.characters);
+							}}
+							fontSize={13}
+							fontWeight={400}
 							fill="#000"
 							width="fill-parent"
 							verticalAlignText="center"
-							fontFamily="Inter"
-							fontSize={13}
+							inputFrameProps={{
+								padding: 4,
+							}}
+							inputBehavior="wrap"
+						/>
+					) : (
+						<AutoLayout
+							name="Catalog entry"
+							direction="vertical"
+							spacing={2}
+							width="fill-parent"
+							onClick={() => openFlexComponentIframe(id)}
 						>
-							flex.comp.component
-						</Text>
+							<Text
+								name="Select component name"
+								fontSize={13}
+								fontWeight={400}
+								fill="#000"
+								width="fill-parent"
+								verticalAlignText="center"
+							>
+								{value || 'Select component name'}
+							</Text>
+							{catalogRecord ? (
+								<AutoLayout
+									name="Catalog details"
+									direction="vertical"
+									spacing={2}
+									width="fill-parent"
+								>
+									{catalogSummary ? (
+										<Text
+											name="Catalog summary"
+											fill="#3C4043"
+											fontFamily="Inter"
+											fontSize={12}
+											fontWeight={500}
+											width="fill-parent"
+										>
+											{catalogSummary}
+										</Text>
+									) : null}
+									{catalogRecord.description ? (
+										<Text
+											name="Catalog description"
+											fill="#808180"
+											fontFamily="Inter"
+											fontSize={12}
+											width="fill-parent"
+										>
+											{catalogRecord.description}
+										</Text>
+									) : null}
+									{catalogRecord.docsUrl ? (
+										<Text
+											name="Catalog docs"
+											fill="#1A73E8"
+											fontFamily="Inter"
+											fontSize={12}
+											href={catalogRecord.docsUrl}
+										>
+											Docs
+										</Text>
+									) : null}
+								</AutoLayout>
+							) : null}
+						</AutoLayout>
+					)}
+					{properties?.length ? generatePropertyChips(properties) : null}
+					{matchedBy ? (
 						<Text
-							name="Input"
-							fill="#3C4043"
-							width="fill-parent"
-							verticalAlignText="center"
-							lineHeight={24}
+							name="Matched by"
+							fill="#B3B3B3"
 							fontFamily="Inter"
-							fontSize={15}
+							fontSize={11}
 							letterSpacing={0.1}
 						>
-							flex.comp.list-item-media
+							{`Matched by ${MATCH_RULES[matchedBy].label}`}
 						</Text>
-					</AutoLayout>
-				</AutoLayout>
-
-				{/* COMPONENT */}
-				<AutoLayout
-					name="Component"
-					cornerRadius={8}
-					overflow="visible"
-					spacing={12}
-					width="fill-parent"
-					verticalAlignItems="center"
-				>
-					<AutoLayout
-						name="Ellipse"
-						stroke="#00000075"
-						cornerRadius={100}
-						overflow="visible"
-						width={28}
-						height={28}
-						horizontalAlignItems="center"
-						verticalAlignItems="center"
-					>
+					) : null}
+					{linkIssues[id] ? (
 						<Text
-							name="number"
-							fill="#858585"
-							verticalAlignText="center"
-							horizontalAlignText="center"
+							name="Link issue"
+							fill="#E37400"
 							fontFamily="Inter"
-							fontSize={13}
+							fontSize={11}
 							letterSpacing={0.1}
-							fontWeight={600}
 						>
-							1
+							{LINK_ISSUE_MESSAGES[linkIssues[id]]}
 						</Text>
-					</AutoLayout>
-					<AutoLayout name="Frame" padding={4} width="fill-parent">
-						<Text
-							name="Input"
-							opacity={0.3}
-							x={4}
-							y={4}
-							positioning="absolute"
-							hidden={true}
-							fill="#000"
+					) : null}
+					{catalogIssue ? (
+						<AutoLayout
+							name="Catalog issue"
+							overflow="visible"
+							spacing={4}
 							width="fill-parent"
-							verticalAlignText="center"
-							fontFamily="Inter"
-							fontSize={13}
+							verticalAlignItems="center"
 						>
-							flex.comp.component
-						</Text>
+							<SVG
+								name="warning_24px"
+								height={12}
+								width={12}
+								src="<svg width='12' height='12' viewBox='0 0 24 24' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M1 21H23L12 2L1 21ZM13 18H11V16H13V18ZM13 14H11V10H13V14Z' fill='#E37400'/>
+</svg>
+"
+							/>
+							<Text
+								name="Catalog issue reason"
+								fill="#E37400"
+								fontFamily="Inter"
+								fontSize={11}
+								letterSpacing={0.1}
+							>
+								{CATALOG_ISSUE_MESSAGES[catalogIssue]}
+							</Text>
+							{catalogIssue === 'matchesCatalog' ? (
+								<Text
+									name="Promote"
+									fill="#1A73E8"
+									fontFamily="Inter"
+									fontSize={11}
+									fontWeight={500}
+									letterSpacing={0.1}
+									onClick={() => promoteFlexComponents([id])}
+								>
+									Promote
+								</Text>
+							) : null}
+						</AutoLayout>
+					) : null}
+					<AutoLayout name="Row actions" overflow="visible" spacing={10}>
 						<Text
-							name="Input"
-							fill="#3C4043"
-							width="fill-parent"
-							verticalAlignText="center"
-							lineHeight={24}
+							name="Details toggle"
+							fill={isExpanded ? '#1A73E8' : '#808180'}
 							fontFamily="Inter"
-							fontSize={15}
+							fontSize={11}
+							fontWeight={500}
 							letterSpacing={0.1}
+							onClick={() => toggleComponentDetails(id)}
+							hoverStyle={{
+								fill: '#222',
+							}}
 						>
-							flex.comp.list-item-media
+							{`${isExpanded ? 'Hide details' : 'Details'}${
+								filledDetailsCount ? ` (${filledDetailsCount})` : ''
+							}`}
 						</Text>
+						{statusType.usesCatalog && value ? (
+							<Text
+								name="Code"
+								fill="#808180"
+								fontFamily="Inter"
+								fontSize={11}
+								fontWeight={500}
+								letterSpacing={0.1}
+								onClick={() =>
+									openComponentCode({ id, type, value, properties })
+								}
+								tooltip={
+									catalogRecord?.codeTemplate
+										? 'Code from the catalog template'
+										: 'Generic code, the catalog has no template'
+								}
+								hoverStyle={{
+									fill: '#222',
+								}}
+							>
+								Code
+							</Text>
+						) : null}
 					</AutoLayout>
+					{isExpanded ? (
+						<AutoLayout
+							name="Details panel"
+							direction="vertical"
+							spacing={4}
+							padding={{
+								top: 4,
+								right: 0,
+								bottom: 0,
+								left: 0,
+							}}
+							width="fill-parent"
+						>
+							{detailFields.map((field) => (
+								<AutoLayout
+									key={field}
+									name={`Detail ${field}`}
+									direction="vertical"
+									spacing={2}
+									width="fill-parent"
+								>
+									<Text
+										name="Detail label"
+										fill="#808180"
+										fontFamily="Inter"
+										fontSize={11}
+										letterSpacing={0.1}
+									>
+										{field === 'reason'
+											? `Why ${statusType.label}?`
+											: COMPONENT_DETAIL_LABELS[field]}
+									</Text>
+									<Input
+										name="Detail input"
+										value={details?.[field] ?? ''}
+										placeholder={
+											field === 'docsUrl' ? 'https://...' : 'add a note'
+										}
+										onTextEditEnd={(e) => {
+											updateComponentDetails(id, field, e.characters);
+										}}
+										fontSize={12}
+										fontWeight={400}
+										fill="#000"
+										width="fill-parent"
+										inputFrameProps={{
+											fill: '#F8F9FA',
+											cornerRadius: 4,
+											padding: 4,
+										}}
+										inputBehavior="wrap"
+									/>
+								</AutoLayout>
+							))}
+						</AutoLayout>
+					) : null}
 				</AutoLayout>
-			</AutoLayout>
 
-			{/* LINE  */}
-			<AutoLayout
-				name="line-seperator"
-				overflow="visible"
-				direction="vertical"
-				spacing={12}
-				padding={{
-					vertical: 7,
-					horizontal: 0,
-				}}
-				width="fill-parent"
-			>
+				{generateAssignee('component', id, assignee)}
+
+				{isReordering ? (
+					<AutoLayout name="Reorder controls" overflow="visible" spacing={2}>
+						<AutoLayout
+							name="Move up"
+							overflow="visible"
+							padding={4}
+							opacity={index === 0 ? 0.3 : 1}
+							onClick={() => moveFlexComponent(index, -1)}
+						>
+							<SVG
+								name="Vector"
+								height={10}
+								width={10}
+								src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M5 1L10 6.5L8.6 7.9L5 4L1.4 7.9L0 6.5L5 1Z' fill='#8F9092'/>
+</svg>
+"
+							/>
+						</AutoLayout>
+						<AutoLayout
+							name="Move down"
+							overflow="visible"
+							padding={4}
+							opacity={index === dynamicComponents.length - 1 ? 0.3 : 1}
+							onClick={() => moveFlexComponent(index, 1)}
+						>
+							<SVG
+								name="Vector"
+								height={10}
+								width={10}
+								src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M5 9L0 3.5L1.4 2.1L5 6L8.6 2.1L10 3.5L5 9Z' fill='#8F9092'/>
+</svg>
+"
+							/>
+						</AutoLayout>
+					</AutoLayout>
+				) : null}
+
 				<AutoLayout
-					name="line"
-					fill="#DADCE0"
+					name="Close24Px"
+					strokeWidth={0.926}
 					overflow="visible"
-					direction="vertical"
-					spacing={9}
-					padding={4}
-					width="fill-parent"
-					height={1}
-				/>
+					padding={{
+						top: 4,
+						right: 6,
+						bottom: 4,
+						left: 4,
+					}}
+					onClick={() => removeFlexComponent(index)}
+				>
+					<SVG
+						name="Vector"
+						height={10}
+						width={10}
+						src="<svg width='10' height='10' viewBox='0 0 10 10' fill='none' xmlns='http://www.w3.org/2000/svg'>
+                <path d='M10 1.00714L8.99286 0L5 3.99286L1.00714 0L0 1.00714L3.99286 5L0 8.99286L1.00714 10L5 6.00714L8.99286 10L10 8.99286L6.00714 5L10 1.00714Z' fill='#8F9092'/>
+                </svg>
+                "
+					/>
+				</AutoLayout>
 			</AutoLayout>
+		);
+	}
 
-			{/* NOTES SUBMITTED GROUP*/}
+	usePropertyMenu(
+		[
+			...(isFinalized
+				? []
+				: [
+						{
+							itemType: 'action' as const,
+							propertyName: 'importFromSelection',
+							tooltip: 'Import from selection',
+							icon: PROPERTY_MENU_ICONS.importFromSelection,
+						},
+				  ]),
+			{
+				itemType: 'action',
+				propertyName: 'refreshCatalog',
+				tooltip: 'Refresh catalog',
+				icon: PROPERTY_MENU_ICONS.refreshCatalog,
+			},
+			{
+				itemType: 'action',
+				propertyName: 'export',
+				tooltip: 'Export spec',
+				icon: PROPERTY_MENU_ICONS.export,
+			},
+			{
+				itemType: 'toggle',
+				propertyName: 'compact',
+				tooltip: 'Compact view',
+				icon: PROPERTY_MENU_ICONS.compact,
+				isToggled: isCompact,
+			},
+			// settings can retype rows, which a final spec does not allow
+			...(isFinalized
+				? []
+				: [
+						{
+							itemType: 'action' as const,
+							propertyName: 'settings',
+							tooltip: 'Settings',
+							icon: PROPERTY_MENU_ICONS.settings,
+						},
+				  ]),
+			{
+				itemType: 'dropdown',
+				propertyName: 'moreActions',
+				tooltip: 'More actions',
+				options: [
+					{ option: MORE_ACTIONS, label: 'More actions' },
+					...(isFinalized
+						? []
+						: [
+								{ option: 'auditSelection', label: 'Audit selection' },
+								{ option: 'placeBadges', label: 'Place badges' },
+								...(Object.keys(badgeIds).length
+									? [{ option: 'clearBadges', label: 'Clear badges' }]
+									: []),
+								{ option: 'refreshThumbnails', label: 'Refresh thumbnails' },
+								{ option: 'importSpec', label: 'Import spec' },
+						  ]),
+					{ option: 'screenCode', label: 'Copy code for whole screen' },
+					{ option: 'specReport', label: 'Spec report' },
+				],
+				selectedOption: MORE_ACTIONS,
+			},
+			{ itemType: 'separator' },
+			{
+				itemType: 'dropdown',
+				propertyName: 'statusFilter',
+				tooltip: 'Show status',
+				options: [
+					{ option: ALL_STATUS_TYPES, label: 'All statuses' },
+					...statusTypes.map(({ id, label }) => ({ option: id, label })),
+				],
+				// a deleted status type falls back to showing every row
+				selectedOption: statusTypes.some(({ id }) => id === statusFilter)
+					? statusFilter
+					: ALL_STATUS_TYPES,
+			},
+		],
+		async ({ propertyName, propertyValue }) => {
+			if (propertyName === 'importFromSelection') {
+				await importFromSelection();
+			}
+			if (propertyName === 'refreshCatalog') {
+				await refreshCatalog();
+			}
+			if (propertyName === 'export') {
+				await openExport();
+			}
+			if (propertyName === 'compact') {
+				setIsCompact(!isCompact);
+			}
+			if (propertyName === 'settings') {
+				await openSettings();
+			}
+			if (propertyName === 'statusFilter' && propertyValue) {
+				setStatusFilter(propertyValue);
+			}
+			if (propertyName === 'moreActions') {
+				if (propertyValue === 'auditSelection') {
+					await auditFromSelection();
+				}
+				if (propertyValue === 'placeBadges') {
+					await placeBadges();
+				}
+				if (propertyValue === 'clearBadges') {
+					clearBadges();
+				}
+				if (propertyValue === 'refreshThumbnails') {
+					await refreshThumbnails();
+				}
+				if (propertyValue === 'importSpec') {
+					await openImport();
+				}
+				if (propertyValue === 'screenCode') {
+					await openScreenCode();
+				}
+				if (propertyValue === 'specReport') {
+					await openSpecReport();
+				}
+			}
+		}
+	);
+
+	return (
+		<AutoLayout
+			name="Widget"
+			effect={[
+				{
+					type: 'drop-shadow',
+					color: '#00000040',
+					offset: {
+						x: 0,
+						y: 2,
+					},
+					blur: 2,
+					showShadowBehindNode: false,
+				},
+				{
+					type: 'drop-shadow',
+					color: '#00000040',
+					offset: {
+						x: 0,
+						y: 0,
+					},
+					blur: 7,
+					showShadowBehindNode: false,
+				},
+			]}
+			fill="#FFF"
+			cornerRadius={16}
+			overflow="visible"
+			direction="vertical"
+			spacing={14}
+			width={360}
+			padding={{
+				vertical: 24,
+				horizontal: 18,
+			}}
+		>
+			{/* TITLE FIELD */}
 			<AutoLayout
-				name="Comment"
+				name="Title"
 				overflow="visible"
 				direction="vertical"
-				padding={{
-					vertical: 0,
-					horizontal: 4,
-				}}
 				spacing={8}
 				width="fill-parent"
 			>
+				{/* Auto layout for Title */}
 				<AutoLayout
-					name="Comment User"
+					name="level"
 					overflow="visible"
 					spacing={8}
 					width="fill-parent"
 				>
-					<AutoLayout
-						name="Avatar"
-						fill={{
-							type: 'image',
-							src: 'https://lh3.googleusercontent.com/a-/AFdZucr35CB_ZnJbPOTeugL_8PjHc6L1l5IIXRLScF65=s600-p',
-							imageRef: 'cff3e72f0ffd376c3984dad92b6c5f8ff0793de4',
-							imageTransform: [
-								[0.996610164642334, 0, 0.0016949152341112494],
-								[0, 1, 0],
-							],
-							scalingFactor: 0.5,
-						}}
-						cornerRadius={100}
-						overflow="visible"
-						width={22}
-						height={22}
-						horizontalAlignItems="center"
-						verticalAlignItems="center"
-					/>
-					<Text
-						name="Timestamp"
-						fill="#B3B3B3"
-						width="fill-parent"
-						verticalAlignText="center"
-						lineHeight={22}
-						fontFamily="Inter"
-						fontSize={13}
-						letterSpacing={0.1}
-					>
-						Andrew Carter - 12/09/2022
-					</Text>
+					{/* Title field*/}
+
+					{isFinalized ? (
+						<Text
+							name="Title"
+							fontSize={34}
+							fill="#000"
+							width="fill-parent"
+							verticalAlignText="center"
+						>
+							{title || 'Untitled screen'}
+						</Text>
+					) : (
+						<Input
+							name="Input"
+							value={title}
+							placeholder="Screen title"
+							onTextEditEnd={(e) => {
+								if (e.characters !== title) {
+									setTitle(e.characters);
+									logEdit('title', `Changed title to "${e.characters}"`);
+								}
+							}}
+							fontSize={34}
+							fill="#000"
+							width="fill-parent"
+							verticalAlignText="center"
+							inputFrameProps={{
+								padding: 4,
+							}}
+							inputBehavior="wrap"
+						/>
+					)}
 				</AutoLayout>
 				<Text
-					name="Comment"
-					fill="#333"
-					width="fill-parent"
-					verticalAlignText="center"
-					lineHeight={22}
+					name="Spec status"
+					fill={isFinalized ? '#1E8E3E' : '#808180'}
 					fontFamily="Inter"
-					fontSize={13}
+					fontSize={12}
+					fontWeight={600}
 					letterSpacing={0.1}
 				>
-					The 1:1 component is a work in progress and should be added to the
-					library soon as noted by @carterandrew.
+					{isFinalized ? 'Final spec · read-only' : 'Draft'}
 				</Text>
 			</AutoLayout>
 
-			{/* LINE  */}
+			{/* LINE */}
 			<AutoLayout
 				name="line-seperator"
 				overflow="visible"
@@ -1297,180 +4613,427 @@ function Widget() {
 				/>
 			</AutoLayout>
 
-			{/* Legend */}
-			<AutoLayout
-				name="Legend"
-				overflow="visible"
-				direction="vertical"
-				spacing={14}
-				padding={{
-					top: 0,
-					right: 0,
-					bottom: 0,
-					left: 7,
-				}}
-				width="fill-parent"
-			>
-				{/* High confidence component */}
-				<AutoLayout
-					name="Legend Flex"
-					overflow="visible"
-					spacing={7}
-					width="fill-parent"
-					verticalAlignItems="center"
-				>
-					<SVG
-						name="Rectangle"
-						height={12}
-						width={12}
-						src="<svg width='14' height='14' viewBox='0 0 14 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
-            <path d='M0 7C0 3.13401 3.13401 0 7 0V0C10.866 0 14 3.13401 14 7V7C14 10.866 10.866 14 7 14V14C3.13401 14 0 10.866 0 7V7Z' fill='#1A73E8'/>
-            </svg>
-            "
-					/>
-					<Text
-						name="Flex component"
-						opacity={0.6}
-						fill="#808180"
+			{isFinalized ? (
+				generateSubmittedSpec()
+			) : (
+				<>
+					{/* COMPONENTS section */}
+					{dynamicComponents.length ? (
+						<AutoLayout
+							name="Components"
+							overflow="visible"
+							direction="vertical"
+							spacing={8}
+							width="fill-parent"
+						>
+							{/* Autolayot which wraps Components and Reorder */}
+							<AutoLayout
+								name="Components"
+								overflow="visible"
+								direction="horizontal"
+								spacing="auto"
+								width="fill-parent"
+							>
+								<Text
+									name="Components"
+									fill="#808180"
+									verticalAlignText="center"
+									lineHeight={24}
+									fontFamily="Inter"
+									fontSize={13}
+									letterSpacing={0.1}
+								>
+									Components
+								</Text>
+
+								<AutoLayout
+									name="Components actions"
+									overflow="visible"
+									spacing={12}
+								>
+									{generateAssignedToMeFilter()}
+									<Text
+										name="Reorder"
+										fill={isReordering ? '#1A73E8' : '#808180'}
+										verticalAlignText="center"
+										lineHeight={24}
+										fontFamily="Inter"
+										fontSize={13}
+										letterSpacing={0.1}
+										horizontalAlignText="right"
+										onClick={() => setIsReordering(!isReordering)}
+										hoverStyle={{
+											fill: '#222',
+										}}
+									>
+										{isReordering ? 'Done' : 'Reorder'}
+									</Text>
+								</AutoLayout>
+							</AutoLayout>
+
+							{/* Sort options, only while reordering */}
+							{isReordering ? (
+								<AutoLayout
+									name="Sort by"
+									overflow="visible"
+									spacing={10}
+									width="fill-parent"
+								>
+									<Text
+										name="Sort by"
+										fill="#B3B3B3"
+										fontFamily="Inter"
+										fontSize={12}
+										letterSpacing={0.1}
+									>
+										Sort by
+									</Text>
+									{(Object.keys(SORT_ORDER_LABELS) as SortOrder[]).map(
+										(order) => (
+											<Text
+												key={order}
+												name={`Sort by ${order}`}
+												fill="#808180"
+												fontFamily="Inter"
+												fontSize={12}
+												fontWeight={500}
+												letterSpacing={0.1}
+												onClick={() => sortFlexComponents(order)}
+												hoverStyle={{
+													fill: '#222',
+												}}
+											>
+												{SORT_ORDER_LABELS[order]}
+											</Text>
+										)
+									)}
+								</AutoLayout>
+							) : null}
+
+							{/* Auto layout for INPUT + ELLIPSE */}
+							<AutoLayout
+								name="Input field"
+								overflow="visible"
+								spacing={8}
+								width="fill-parent"
+								direction="vertical"
+							>
+								{/* Input field with number [high confidence, unclear, custom] */}
+								{dynamicComponents.map((component, index) =>
+									!matchesStatusFilter(component.type) ||
+									(assignedFilterUser &&
+										!isAssignedTo(component.assignee, assignedFilterUser))
+										? null
+										: generateDynamicComponents(component, index)
+								)}
+							</AutoLayout>
+						</AutoLayout>
+					) : null}
+
+					{/* Undo, redo and recently removed rows */}
+					{generateHistory()}
+
+					{/* Options */}
+					<AutoLayout
+						name="Options"
+						overflow="visible"
+						direction="vertical"
+						spacing={2}
 						width="fill-parent"
-						lineHeight={18}
-						fontFamily="Inter"
-						fontSize={14}
-						letterSpacing={0.1}
+						padding={{
+							top: 6,
+							right: 0,
+							bottom: 0,
+							left: 0,
+						}}
 					>
-						High confidence component
-					</Text>
-				</AutoLayout>
+						{/* Add component of every status type : OPTION */}
+						{statusTypes.map(({ id, label }) =>
+							generateOption({
+								key: id,
+								name: `Add ${label} component`,
+								iconName: 'add_24px',
+								icon: `<svg width='12' height='12' viewBox='0 0 12 12' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M12 6.75H6.75V12H5.25V6.75H0V5.25H5.25V0H6.75V5.25H12V6.75Z' fill='#8F9092'/>
+</svg>`,
+								iconSize: 13,
+								label: `Add ${label} component`,
+								onClick: () => addFlexComponent(id),
+							})
+						)}
 
-				{/* Unclear usage */}
-				<AutoLayout
-					name="Unclear usage"
-					overflow="visible"
-					spacing={7}
-					width="fill-parent"
-					verticalAlignItems="center"
-				>
-					<SVG
-						name="Rectangle"
-						height={12}
-						width={12}
-						src="<svg width='14' height='14' viewBox='0 0 14 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
-            <path d='M0 7C0 3.13401 3.13401 0 7 0V0C10.866 0 14 3.13401 14 7V7C14 10.866 10.866 14 7 14V14C3.13401 14 0 10.866 0 7V7Z' fill='#C28AF5'/>
-            </svg>
-            "
-					/>
-					<Text
-						name="Custom component not added to flex"
-						opacity={0.6}
-						fill="#808180"
+						{/* Add note : OPTION */}
+						{generateOption({
+							name: 'Add note',
+							iconName: 'add_24px',
+							icon: `<svg width='14' height='12' viewBox='0 0 14 12' fill='none' xmlns='http://www.w3.org/2000/svg'>
+<path d='M0.25 3.5H8.5V5H0.25V3.5ZM0.25 2H8.5V0.5H0.25V2ZM0.25 8H5.5V6.5H0.25V8ZM11.5075 5.6525L12.04 5.12C12.3325 4.8275 12.805 4.8275 13.0975 5.12L13.63 5.6525C13.9225 5.945 13.9225 6.4175 13.63 6.71L13.0975 7.2425L11.5075 5.6525ZM10.975 6.185L7 10.16V11.75H8.59L12.565 7.775L10.975 6.185Z' fill='#8F9092'/>
+</svg>`,
+							label: 'Add note',
+							onClick: addNote,
+						})}
+
+						{/* Every other action lives in the property menu, the catalog status stays visible */}
+						<AutoLayout
+							name="Catalog status"
+							direction="vertical"
+							width="fill-parent"
+							padding={{
+								top: 6,
+								right: 0,
+								bottom: 6,
+								left: 8,
+							}}
+						>
+							{generateCatalogStatus()}
+						</AutoLayout>
+					</AutoLayout>
+
+					{/* LINE  */}
+					<AutoLayout
+						name="line-seperator"
+						overflow="visible"
+						direction="vertical"
+						spacing={12}
+						padding={{
+							vertical: 7,
+							horizontal: 0,
+						}}
 						width="fill-parent"
-						lineHeight={18}
-						fontFamily="Inter"
-						fontSize={14}
-						letterSpacing={0.1}
 					>
-						Unclear usage
-					</Text>
-				</AutoLayout>
+						<AutoLayout
+							name="line"
+							fill="#DADCE0"
+							overflow="visible"
+							direction="vertical"
+							spacing={9}
+							padding={4}
+							width="fill-parent"
+							height={1}
+						/>
+					</AutoLayout>
 
-				{/* Unclear usage */}
-				<AutoLayout
-					name="Unclear usage"
-					overflow="visible"
-					spacing={7}
-					width="fill-parent"
-					verticalAlignItems="center"
-				>
-					<SVG
-						name="Rectangle"
-						height={12}
-						width={12}
-						src="<svg width='13' height='14' viewBox='0 0 13 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
-            <path fill-rule='evenodd' clip-rule='evenodd' d='M6.5 12.5C9.53757 12.5 12 10.0376 12 7C12 3.96243 9.53757 1.5 6.5 1.5C3.46243 1.5 1 3.96243 1 7C1 10.0376 3.46243 12.5 6.5 12.5ZM6.5 13.5C10.0899 13.5 13 10.5899 13 7C13 3.41015 10.0899 0.5 6.5 0.5C2.91015 0.5 0 3.41015 0 7C0 10.5899 2.91015 13.5 6.5 13.5Z' fill='#A9A7A7'/>
-            </svg>"
-					/>
-					<Text
-						name="Custom component not added to flex"
-						opacity={0.6}
-						fill="#808180"
+					{/* NOTES */}
+					<AutoLayout
+						name="Notes"
+						overflow="visible"
+						direction="vertical"
+						spacing={8}
 						width="fill-parent"
-						lineHeight={18}
-						fontFamily="Inter"
-						fontSize={14}
-						letterSpacing={0.1}
 					>
-						Custom component
-					</Text>
-				</AutoLayout>
-			</AutoLayout>
+						<AutoLayout
+							name="Notes header"
+							overflow="visible"
+							direction="horizontal"
+							spacing="auto"
+							width="fill-parent"
+						>
+							<Text
+								name="Note"
+								fill="#808180"
+								verticalAlignText="center"
+								lineHeight={24}
+								fontFamily="Inter"
+								fontSize={13}
+								letterSpacing={0.1}
+							>
+								Notes
+							</Text>
+							{notes.length ? generateAssignedToMeFilter() : null}
+						</AutoLayout>
 
-			{/* LINE  */}
-			<AutoLayout
-				name="line-seperator"
-				overflow="visible"
-				direction="vertical"
-				spacing={12}
-				padding={{
-					vertical: 7,
-					horizontal: 0,
-				}}
-				width="fill-parent"
-			>
-				<AutoLayout
-					name="line"
-					fill="#DADCE0"
-					overflow="visible"
-					direction="vertical"
-					spacing={9}
-					padding={4}
-					width="fill-parent"
-					height={1}
-				/>
-			</AutoLayout>
+						{notes.length ? (
+							notes.map((threadNote) =>
+								assignedFilterUser &&
+								!isAssignedTo(threadNote.assignee, assignedFilterUser)
+									? null
+									: generateNote(threadNote)
+							)
+						) : (
+							<Text
+								name="No notes"
+								fill="#B3B3B3"
+								fontFamily="Inter"
+								fontSize={13}
+								letterSpacing={0.1}
+							>
+								No notes yet, use "Add note" to start the thread
+							</Text>
+						)}
+					</AutoLayout>
+
+					{/* LINE  */}
+					<AutoLayout
+						name="line-seperator"
+						overflow="visible"
+						direction="vertical"
+						spacing={12}
+						padding={{
+							vertical: 7,
+							horizontal: 0,
+						}}
+						width="fill-parent"
+					>
+						<AutoLayout
+							name="line"
+							fill="#DADCE0"
+							overflow="visible"
+							direction="vertical"
+							spacing={9}
+							padding={4}
+							width="fill-parent"
+							height={1}
+						/>
+					</AutoLayout>
+				</>
+			)}
+
+			{isCompact ? null : (
+				<>
+					{/* Legend */}
+					<AutoLayout
+						name="Legend"
+						overflow="visible"
+						direction="vertical"
+						spacing={14}
+						padding={{
+							top: 0,
+							right: 0,
+							bottom: 0,
+							left: 7,
+						}}
+						width="fill-parent"
+					>
+						{statusTypes.map(
+							({ id, label, colour, description, usesCatalog }) => (
+								<AutoLayout
+									key={id}
+									name={`Legend ${label}`}
+									overflow="visible"
+									spacing={7}
+									width="fill-parent"
+									verticalAlignItems="center"
+								>
+									<SVG
+										name="Rectangle"
+										height={12}
+										width={12}
+										src={
+											usesCatalog
+												? `<svg width='14' height='14' viewBox='0 0 14 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
+			            <path d='M0 7C0 3.13401 3.13401 0 7 0V0C10.866 0 14 3.13401 14 7V7C14 10.866 10.866 14 7 14V14C3.13401 14 0 10.866 0 7V7Z' fill='${colour}'/>
+			            </svg>
+			            `
+												: `<svg width='13' height='14' viewBox='0 0 13 14' fill='none' xmlns='http://www.w3.org/2000/svg'>
+			            <path fill-rule='evenodd' clip-rule='evenodd' d='M6.5 12.5C9.53757 12.5 12 10.0376 12 7C12 3.96243 9.53757 1.5 6.5 1.5C3.46243 1.5 1 3.96243 1 7C1 10.0376 3.46243 12.5 6.5 12.5ZM6.5 13.5C10.0899 13.5 13 10.5899 13 7C13 3.41015 10.0899 0.5 6.5 0.5C2.91015 0.5 0 3.41015 0 7C0 10.5899 2.91015 13.5 6.5 13.5Z' fill='${colour}'/>
+			            </svg>`
+										}
+									/>
+									<Text
+										name={label}
+										opacity={0.6}
+										fill="#808180"
+										width="fill-parent"
+										lineHeight={18}
+										fontFamily="Inter"
+										fontSize={14}
+										letterSpacing={0.1}
+									>
+										{description || label}
+									</Text>
+								</AutoLayout>
+							)
+						)}
+					</AutoLayout>
+
+					{/* LINE  */}
+					<AutoLayout
+						name="line-seperator"
+						overflow="visible"
+						direction="vertical"
+						spacing={12}
+						padding={{
+							vertical: 7,
+							horizontal: 0,
+						}}
+						width="fill-parent"
+					>
+						<AutoLayout
+							name="line"
+							fill="#DADCE0"
+							overflow="visible"
+							direction="vertical"
+							spacing={9}
+							padding={4}
+							width="fill-parent"
+							height={1}
+						/>
+					</AutoLayout>
+				</>
+			)}
 
 			{/* Time Stamp */}
-			<AutoLayout
-				name="TimeStamp"
-				overflow="visible"
-				padding={{
-					vertical: 0,
-					horizontal: 4,
-				}}
-				spacing={8}
-				width="fill-parent"
-			>
+			{specAuthorship ? (
 				<AutoLayout
-					name="User"
-					fill={{
-						type: 'image',
-						src: 'https://lh3.googleusercontent.com/a-/AFdZucr35CB_ZnJbPOTeugL_8PjHc6L1l5IIXRLScF65=s600-p',
-						imageRef: '2600934d6c7502adb34e78959dbca397572f4c2b',
-						imageTransform: [
-							[0.996610164642334, 0, 0.0016949152341112494],
-							[0, 1, 0],
-						],
-						scalingFactor: 0.5,
-					}}
-					cornerRadius={100}
+					name="TimeStamp"
 					overflow="visible"
-					width={22}
-					height={22}
-					horizontalAlignItems="center"
-					verticalAlignItems="center"
-				/>
-				<Text
-					name="Spec-ed by Andrew Carter - 12/09/2022"
-					fill="#B3B3B3"
-					width={254}
-					verticalAlignText="center"
-					lineHeight={22}
-					fontFamily="Inter"
-					fontSize={13}
-					letterSpacing={0.1}
+					padding={{
+						vertical: 0,
+						horizontal: 4,
+					}}
+					spacing={8}
+					width="fill-parent"
 				>
-					Spec-ed by Andrew Carter - 12/09/22
-				</Text>
-			</AutoLayout>
+					{generateAvatar(specAuthorship.createdBy)}
+					<AutoLayout
+						name="Authorship"
+						direction="vertical"
+						width="fill-parent"
+					>
+						<Text
+							name="Spec-ed by"
+							fill="#B3B3B3"
+							width="fill-parent"
+							verticalAlignText="center"
+							lineHeight={22}
+							fontFamily="Inter"
+							fontSize={13}
+							letterSpacing={0.1}
+						>
+							{`Spec-ed by ${specAuthorship.createdBy.name} - ${formatDate(
+								specAuthorship.createdAt
+							)}`}
+						</Text>
+						{specAuthorship.editedAt !== specAuthorship.createdAt ? (
+							<Text
+								name="Last edited by"
+								fill="#B3B3B3"
+								width="fill-parent"
+								verticalAlignText="center"
+								lineHeight={22}
+								fontFamily="Inter"
+								fontSize={13}
+								letterSpacing={0.1}
+							>
+								{`Last edited by ${specAuthorship.editedBy.name} - ${formatDate(
+									specAuthorship.editedAt
+								)}`}
+							</Text>
+						) : null}
+						<Text
+							name="Edit history"
+							fill="#1A73E8"
+							lineHeight={22}
+							fontFamily="Inter"
+							fontSize={13}
+							letterSpacing={0.1}
+							onClick={openEditLog}
+						>
+							{`View edit history (${editLog.length})`}
+						</Text>
+					</AutoLayout>
+				</AutoLayout>
+			) : null}
 
 			{/* LINE  */}
 			<AutoLayout
@@ -1523,10 +5086,47 @@ function Widget() {
 				</Text>
 			</AutoLayout>
 
+			{/* EXPORT ACTION, the options are hidden in the read-only view */}
+			{isFinalized ? (
+				<AutoLayout
+					name="Export action"
+					stroke="#DBDBE0"
+					cornerRadius={8}
+					overflow="visible"
+					padding={{
+						vertical: 8,
+						horizontal: 12,
+					}}
+					width="fill-parent"
+					onClick={openExport}
+				>
+					<Text
+						name="Export spec"
+						fill="#3C4043"
+						width="fill-parent"
+						horizontalAlignText="center"
+						lineHeight={24}
+						fontFamily="Inter"
+						fontSize={13}
+						letterSpacing={0.1}
+						fontWeight={700}
+					>
+						Export spec
+					</Text>
+				</AutoLayout>
+			) : null}
+
 			{/* ACTION */}
 			<AutoLayout
 				name="Action"
-				fill="#BDC1C6"
+				fill={
+					isFinalized
+						? '#FFF'
+						: dynamicComponents.length
+						? '#1A73E8'
+						: '#BDC1C6'
+				}
+				stroke={isFinalized ? '#DBDBE0' : undefined}
 				cornerRadius={8}
 				overflow="visible"
 				spacing={4}
@@ -1535,10 +5135,11 @@ function Widget() {
 					horizontal: 12,
 				}}
 				width="fill-parent"
+				onClick={isFinalized ? reopenSpec : finalizeSpec}
 			>
 				<Text
-					name="Create"
-					fill="#FFF"
+					name={isFinalized ? 'Edit spec' : 'Create'}
+					fill={isFinalized ? '#3C4043' : '#FFF'}
 					width="fill-parent"
 					verticalAlignText="center"
 					horizontalAlignText="center"
@@ -1548,7 +5149,7 @@ function Widget() {
 					letterSpacing={0.1}
 					fontWeight={700}
 				>
-					Create
+					{isFinalized ? 'Edit spec' : 'Create'}
 				</Text>
 			</AutoLayout>
 		</AutoLayout>